@@ -4,8 +4,15 @@ import * as vscode from 'vscode';
 import { ConfigurationManager } from './services/ConfigurationManager.js';
 import { LLMService } from './services/LLMService.js';
 import { CommentaryScheduler } from './services/CommentaryScheduler.js';
+import { CommentaryCache } from './services/CommentaryCache.js';
+import { UsageTracker } from './services/UsageTracker.js';
+import { RateLimiter } from './services/RateLimiter.js';
+import { CircuitBreaker } from './services/CircuitBreaker.js';
+import { Redactor } from './services/Redactor.js';
 import { PetPanelProvider } from './providers/PetPanelProvider.js';
+import { HealthStatusBarItem } from './providers/HealthStatusBarItem.js';
 import { PetType } from './models/PetType.js';
+import { CircuitState } from './models/CircuitState.js';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -25,14 +32,43 @@ export function activate(context: vscode.ExtensionContext) {
 			)
 		);
 
+		// Initialize CommentaryCache
+		const commentaryCache = new CommentaryCache(context.globalStorageUri, configManager);
+
+		// Initialize UsageTracker
+		const usageTracker = new UsageTracker(context.globalState, configManager);
+
+		// Initialize RateLimiter, shared by every commentary trigger
+		const rateLimiter = new RateLimiter(configManager);
+
+		// Initialize CircuitBreaker; the pet naps and the status bar shows a broken link while it is not closed
+		const circuitBreaker = new CircuitBreaker(configManager);
+		context.subscriptions.push(circuitBreaker);
+		context.subscriptions.push(new HealthStatusBarItem(circuitBreaker));
+		context.subscriptions.push(
+			circuitBreaker.onDidChangeState((state) => {
+				petPanelProvider.setSleeping(state !== CircuitState.Closed);
+			})
+		);
+
+		// Output channel for what the extension does with your code
+		const outputChannel = vscode.window.createOutputChannel('Spooky Pets');
+		context.subscriptions.push(outputChannel);
+
+		// Initialize Redactor, which masks secrets before code leaves the machine
+		const redactor = new Redactor(configManager, outputChannel);
+
 		// Initialize LLMService
-		const llmService = new LLMService(configManager);
+		const llmService = new LLMService(configManager, commentaryCache, usageTracker, rateLimiter, circuitBreaker, redactor);
+		circuitBreaker.setHealthProbe(() => llmService.probeEndpoint());
 
 		// Initialize CommentaryScheduler
 		const commentaryScheduler = new CommentaryScheduler(
 			configManager,
 			llmService,
-			petPanelProvider
+			petPanelProvider,
+			usageTracker,
+			circuitBreaker
 		);
 		commentaryScheduler.start();
 		context.subscriptions.push(commentaryScheduler);
@@ -41,9 +77,9 @@ export function activate(context: vscode.ExtensionContext) {
 		const setApiKeyCommand = vscode.commands.registerCommand('spookyPets.setApiKey', async () => {
 			try {
 				const apiKey = await vscode.window.showInputBox({
-					prompt: 'Enter your OpenAI API key',
+					prompt: 'Enter your LLM API key',
 					password: true,
-					placeHolder: 'sk-...'
+					placeHolder: 'sk-... or sk-ant-...'
 				});
 
 				if (apiKey) {
@@ -125,6 +161,155 @@ export function activate(context: vscode.ExtensionContext) {
 		});
 		context.subscriptions.push(triggerCommentaryCommand);
 
+		// Register askAboutSelection command
+		const askAboutSelectionCommand = vscode.commands.registerCommand('spookyPets.askAboutSelection', async () => {
+			try {
+				const editor = vscode.window.activeTextEditor;
+				if (!editor || editor.selection.isEmpty) {
+					vscode.window.showWarningMessage('Select some code to ask your pet about.');
+					return;
+				}
+
+				const question = await vscode.window.showInputBox({
+					prompt: 'Ask your pet about the selected code (optional)',
+					placeHolder: 'e.g. Is this loop safe? Leave empty for general commentary'
+				});
+
+				// Escape cancels; an empty question asks for general commentary
+				if (question === undefined) {
+					return;
+				}
+
+				await commentaryScheduler.askAboutSelection(question);
+			} catch (error) {
+				console.error('[Extension] Error in askAboutSelection command:', error);
+				vscode.window.showErrorMessage('Failed to ask your pet about the selection.');
+			}
+		});
+		context.subscriptions.push(askAboutSelectionCommand);
+
+		// Register clearCache command
+		const clearCacheCommand = vscode.commands.registerCommand('spookyPets.clearCache', async () => {
+			try {
+				await commentaryCache.clear();
+				vscode.window.showInformationMessage('Commentary cache cleared.');
+			} catch (error) {
+				console.error('[Extension] Error in clearCache command:', error);
+				vscode.window.showErrorMessage('Failed to clear commentary cache.');
+			}
+		});
+		context.subscriptions.push(clearCacheCommand);
+
+		// Register showUsage command
+		const showUsageCommand = vscode.commands.registerCommand('spookyPets.showUsage', async () => {
+			try {
+				const document = await vscode.workspace.openTextDocument({
+					language: 'markdown',
+					content: usageTracker.formatReport()
+				});
+				await vscode.window.showTextDocument(document, { preview: true });
+			} catch (error) {
+				console.error('[Extension] Error in showUsage command:', error);
+				vscode.window.showErrorMessage('Failed to show usage report.');
+			}
+		});
+		context.subscriptions.push(showUsageCommand);
+
+		// Register selectProfile command
+		const selectProfileCommand = vscode.commands.registerCommand('spookyPets.selectProfile', async () => {
+			try {
+				const profiles = configManager.getEndpointProfiles();
+				if (profiles.length === 0) {
+					vscode.window.showInformationMessage(
+						'No endpoint profiles configured. Add them to spookyPets.endpointProfiles in your settings.'
+					);
+					return;
+				}
+
+				const activeName = configManager.getActiveProfile()?.name;
+				const selection = await vscode.window.showQuickPick(
+					[
+						{
+							label: 'Default',
+							description: 'Use the provider, endpoint and model settings',
+							detail: activeName === undefined ? 'current' : undefined,
+							profileName: undefined as string | undefined
+						},
+						...profiles.map(profile => ({
+							label: profile.name,
+							description: profile.url,
+							detail: profile.name === activeName ? 'current' : undefined,
+							profileName: profile.name as string | undefined
+						}))
+					],
+					{ placeHolder: 'Select the endpoint profile your pet should use' }
+				);
+
+				if (selection) {
+					await configManager.setActiveProfile(selection.profileName);
+
+					// Each profile keeps its own key, so offer to set one if it has none yet
+					const apiKey = await configManager.getApiKey();
+					if (!apiKey && llmService.isApiKeyRequired()) {
+						const action = await vscode.window.showInformationMessage(
+							`Now using ${selection.label}. No API key is stored for it yet.`,
+							'Set API Key'
+						);
+						if (action === 'Set API Key') {
+							vscode.commands.executeCommand('spookyPets.setApiKey');
+						}
+					} else {
+						vscode.window.showInformationMessage(`Now using ${selection.label}.`);
+					}
+				}
+			} catch (error) {
+				console.error('[Extension] Error in selectProfile command:', error);
+				vscode.window.showErrorMessage('Failed to switch endpoint profile.');
+			}
+		});
+		context.subscriptions.push(selectProfileCommand);
+
+		// Register listModels command
+		const listModelsCommand = vscode.commands.registerCommand('spookyPets.listModels', async () => {
+			try {
+				const models = await vscode.window.withProgress(
+					{
+						location: vscode.ProgressLocation.Notification,
+						title: 'Spooky Pets: Fetching available models...'
+					},
+					() => llmService.listModels()
+				);
+
+				if (models.length === 0) {
+					vscode.window.showWarningMessage('No models found on the configured server.');
+					return;
+				}
+
+				// The active profile's model takes precedence over spookyPets.model
+				const activeProfile = configManager.getActiveProfile();
+				const currentModel = activeProfile?.model ?? configManager.getModel();
+				const selection = await vscode.window.showQuickPick(
+					models.map(model => ({
+						label: model,
+						description: model === currentModel ? 'current' : undefined
+					})),
+					{ placeHolder: 'Select the model your pet should use' }
+				);
+
+				if (selection) {
+					await configManager.setModel(selection.label);
+					vscode.window.showInformationMessage(activeProfile
+						? `Your pet will now use ${selection.label} with the ${activeProfile.name} profile.`
+						: `Your pet will now use ${selection.label}.`);
+				}
+			} catch (error) {
+				console.error('[Extension] Error in listModels command:', error);
+				const message = error instanceof Error ? error.message : String(error);
+				vscode.window.showErrorMessage(`Spooky Pets: Failed to list models: ${message}`);
+			}
+		});
+		context.subscriptions.push(listModelsCommand);
+
 		// Listen for configuration changes
 		context.subscriptions.push(
 			configManager.onConfigurationChanged(() => {
@@ -138,9 +323,9 @@ export function activate(context: vscode.ExtensionContext) {
 			})
 		);
 
-		// Check if API key is configured on first activation
+		// Check if API key is configured on first activation (local providers need none)
 		configManager.getApiKey().then((apiKey) => {
-			if (!apiKey) {
+			if (!apiKey && llmService.isApiKeyRequired()) {
 				vscode.window.showInformationMessage(
 					'Welcome to Spooky Code Pets! Please configure your API key to enable pet commentary.',
 					'Set API Key'
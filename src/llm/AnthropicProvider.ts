@@ -0,0 +1,156 @@
+import { ProviderType } from '../models/ProviderType.js';
+import { CompletionRequest, LLMProvider, ProviderHttpRequest, TokenUsage } from './LLMProvider.js';
+
+/**
+ * Interface for Anthropic Messages API request
+ */
+export interface AnthropicRequest {
+  model: string;
+  system: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  max_tokens: number;
+  temperature: number;
+  stream?: boolean;
+}
+
+/**
+ * Interface for the token usage block of an Anthropic Messages API response
+ */
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Interface for Anthropic Messages API response
+ */
+export interface AnthropicResponse {
+  content: Array<{
+    type: string;
+    text?: string;
+  }>;
+  usage?: AnthropicUsage;
+}
+
+/**
+ * Interface for a streamed Anthropic Messages API event
+ */
+export interface AnthropicStreamEvent {
+  type: string;
+  delta?: {
+    type: string;
+    text?: string;
+  };
+  message?: {
+    usage?: Partial<AnthropicUsage>;  // Sent with message_start
+  };
+  usage?: Partial<AnthropicUsage>;  // Sent with message_delta; output_tokens is cumulative
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  static readonly API_VERSION = '2023-06-01';
+
+  readonly type = ProviderType.Anthropic;
+  readonly defaultEndpoint = 'https://api.anthropic.com/v1/messages';
+  readonly defaultModel = 'claude-3-5-haiku-latest';
+  readonly requiresApiKey = true;
+  readonly streamFormat = 'sse';
+
+  /**
+   * Builds the Messages API payload with the personality as the top-level system prompt
+   * @param request The completion request
+   * @returns The Anthropic request payload
+   */
+  buildPayload(request: CompletionRequest): AnthropicRequest {
+    return {
+      model: request.model,
+      system: request.systemPrompt,
+      messages: [
+        {
+          role: 'user',
+          content: request.userPrompt
+        }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.stream ? { stream: true } : {})
+    };
+  }
+
+  buildHttpRequest(request: CompletionRequest, endpoint: string, apiKey: string | undefined): ProviderHttpRequest {
+    const headers: Record<string, string> = {
+      'anthropic-version': AnthropicProvider.API_VERSION
+    };
+    if (apiKey) {
+      headers['x-api-key'] = apiKey;
+    }
+
+    return {
+      url: endpoint,
+      headers,
+      body: this.buildPayload(request)
+    };
+  }
+
+  parseResponse(data: unknown): string {
+    const response = data as AnthropicResponse;
+
+    if (!response.content || response.content.length === 0) {
+      throw new Error('Invalid API response: no content blocks returned');
+    }
+
+    // Concatenate all text blocks, ignoring any non-text content
+    const message = response.content
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('');
+    if (!message) {
+      throw new Error('Invalid API response: no message content');
+    }
+
+    return message;
+  }
+
+  parseStreamEvent(data: string): string | undefined {
+    const event = JSON.parse(data) as AnthropicStreamEvent;
+    if (event.type === 'error') {
+      throw new Error(`API stream failed: ${data}`);
+    }
+    if (event.type !== 'content_block_delta' || event.delta?.type !== 'text_delta') {
+      return undefined;
+    }
+    return event.delta.text || undefined;
+  }
+
+  parseUsage(data: unknown): TokenUsage | undefined {
+    const usage = (data as AnthropicResponse).usage;
+    if (!usage) {
+      return undefined;
+    }
+
+    return {
+      promptTokens: usage.input_tokens ?? 0,
+      completionTokens: usage.output_tokens ?? 0
+    };
+  }
+
+  parseStreamUsage(data: string): Partial<TokenUsage> | undefined {
+    const event = JSON.parse(data) as AnthropicStreamEvent;
+    const usage = event.type === 'message_start' ? event.message?.usage : event.usage;
+    if (!usage) {
+      return undefined;
+    }
+
+    const tokens: Partial<TokenUsage> = {};
+    if (usage.input_tokens !== undefined) {
+      tokens.promptTokens = usage.input_tokens;
+    }
+    if (usage.output_tokens !== undefined) {
+      tokens.completionTokens = usage.output_tokens;
+    }
+    return tokens;
+  }
+}
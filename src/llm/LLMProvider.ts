@@ -0,0 +1,103 @@
+import { ProviderType } from '../models/ProviderType.js';
+import { StreamFormat } from './streamReader.js';
+
+/**
+ * Provider-neutral description of a commentary prompt
+ */
+export interface CompletionRequest {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens: number;
+  temperature: number;
+  stream?: boolean;  // Request an incremental response
+}
+
+/**
+ * HTTP request produced by a provider for a given completion request
+ */
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Token counts reported by the backend for a single completion
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Generated text together with the token usage the backend reported
+ */
+export interface CompletionResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Interface implemented by each LLM backend to translate between
+ * the provider-neutral completion request and its wire format
+ */
+export interface LLMProvider {
+  readonly type: ProviderType;
+  readonly defaultEndpoint: string;
+  readonly defaultModel: string;
+  readonly requiresApiKey: boolean;
+  readonly streamFormat: StreamFormat;
+
+  /**
+   * Builds the HTTP request for the backend
+   * @param request The completion request
+   * @param endpoint The endpoint URL to send the request to
+   * @param apiKey The API key for the provider's native auth header, omitted when undefined
+   * @returns The HTTP request description
+   */
+  buildHttpRequest(request: CompletionRequest, endpoint: string, apiKey: string | undefined): ProviderHttpRequest;
+
+  /**
+   * Extracts the generated text from a parsed JSON response body
+   * @param data The parsed response body
+   * @returns The generated text
+   * @throws Error if the response does not contain any text
+   */
+  parseResponse(data: unknown): string;
+
+  /**
+   * Extracts the text delta from a single streamed event payload
+   * @param data The raw event payload
+   * @returns The text delta, or undefined if the event carries no text
+   */
+  parseStreamEvent(data: string): string | undefined;
+
+  /**
+   * Extracts the token usage from a parsed JSON response body
+   * @param data The parsed response body
+   * @returns The token usage, or undefined if the backend did not report it
+   */
+  parseUsage(data: unknown): TokenUsage | undefined;
+
+  /**
+   * Extracts token counts from a single streamed event payload
+   * @param data The raw event payload
+   * @returns The token counts the event reports, or undefined if it carries none
+   */
+  parseStreamUsage(data: string): Partial<TokenUsage> | undefined;
+
+  /**
+   * Gets the URL that lists the models available on the backend, if supported
+   * @param endpoint The configured endpoint
+   * @returns The model list URL
+   */
+  getModelListUrl?(endpoint: string): string;
+
+  /**
+   * Extracts model names from a parsed model list response body
+   * @param data The parsed response body
+   * @returns The available model names
+   */
+  parseModelList?(data: unknown): string[];
+}
@@ -0,0 +1,239 @@
+import { CodeContext } from '../models/CodeContext.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+import { PetType } from '../models/PetType.js';
+import { StructuredCommentaryResponse } from '../models/StructuredCommentaryResponse.js';
+import { TaskResult } from '../models/TaskResult.js';
+import { TerminalContext } from '../models/TerminalContext.js';
+import { PERSONALITIES } from '../personalities/personalities.js';
+
+/**
+ * Interface representing something a heuristic noticed in the code
+ */
+export interface CodeFinding {
+  expression: ExpressionType;
+  observation: string;
+  severity: number;  // Higher severities win when several rules match
+}
+
+/**
+ * A single heuristic over a code snippet
+ */
+type CodeRule = (lines: string[], codeContext: CodeContext) => CodeFinding | undefined;
+
+const MAX_NESTING_DEPTH = 4;
+const MAX_LINE_LENGTH = 120;
+const ALLOWED_NUMBERS = new Set(['0', '1', '2', '10', '100', '1000']);
+
+/**
+ * Gets the indentation width of a line, counting tabs as four spaces
+ */
+function indentationOf(line: string): number {
+  const indent = /^[ \t]*/.exec(line)?.[0] ?? '';
+  return indent.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Removes string literals and line comments so rules do not match their contents
+ */
+function stripLiteralsAndComments(line: string): string {
+  return line
+    .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+    .replace(/(\/\/|#).*$/, '');
+}
+
+/**
+ * Well-known terminal errors and what they usually mean, most specific first
+ */
+const TERMINAL_DIAGNOSES: Array<{ pattern: RegExp; observation: string }> = [
+  { pattern: /command not found|is not recognized as an internal or external command/i, observation: 'That command is not installed, or not on the PATH.' },
+  { pattern: /permission denied|EACCES/i, observation: 'Permission denied; check the file permissions.' },
+  { pattern: /no such file or directory|ENOENT|cannot find the path/i, observation: 'A file or directory it needs does not exist.' },
+  { pattern: /EADDRINUSE|address already in use/i, observation: 'The port is already in use by another process.' },
+  { pattern: /cannot find module|module not found|no module named/i, observation: 'A module is missing; maybe install the dependencies?' },
+  { pattern: /ETIMEDOUT|ECONNREFUSED|could not resolve host/i, observation: 'It could not reach the network.' }
+];
+
+/**
+ * Picks one of a pet's example comments for an expression as the lead-in to an observation,
+ * deterministically so the same input gets the same reaction
+ */
+function pickLeadIn(petType: PetType, expression: ExpressionType, seed: number): string {
+  const examples = PERSONALITIES[petType].exampleComments;
+  const matching = examples.filter(example => example.expression === expression);
+  const candidates = matching.length > 0 ? matching : examples;
+  return candidates[seed % candidates.length].text;
+}
+
+const RULES: CodeRule[] = [
+  // Empty catch blocks swallow errors silently
+  (lines) => {
+    const code = lines.join('\n');
+    if (/catch\s*(\([^)]*\))?\s*\{\s*\}/.test(code) || /except[^:\n]*:\s*\n\s*pass\b/.test(code)) {
+      return {
+        expression: ExpressionType.Concerned,
+        observation: 'That empty catch block is swallowing errors whole.',
+        severity: 5
+      };
+    }
+    return undefined;
+  },
+
+  // Deeply nested code is hard to follow
+  (lines) => {
+    const indents = lines.filter(line => line.trim()).map(indentationOf);
+    const nonZero = indents.filter(indent => indent > 0);
+    if (nonZero.length === 0) {
+      return undefined;
+    }
+
+    const base = Math.min(...indents);
+    const unit = Math.min(...nonZero.map(indent => indent - base).filter(indent => indent > 0), 4);
+    const depth = Math.max(...indents.map(indent => Math.round((indent - base) / unit)));
+    if (depth >= MAX_NESTING_DEPTH) {
+      return {
+        expression: ExpressionType.Concerned,
+        observation: `This code nests ${depth} levels deep - maybe flatten it with early returns?`,
+        severity: 4
+      };
+    }
+    return undefined;
+  },
+
+  // Debug logging left behind
+  (lines) => {
+    const count = lines.filter(line => /\bconsole\.(log|debug)\s*\(/.test(line)).length;
+    if (count > 0) {
+      return {
+        expression: ExpressionType.Concerned,
+        observation: count === 1
+          ? 'A console.log was left lurking in here.'
+          : `${count} console.log calls are still lurking in here.`,
+        severity: 3
+      };
+    }
+    return undefined;
+  },
+
+  // Lines too long to read comfortably
+  (lines) => {
+    const longest = Math.max(...lines.map(line => line.length));
+    if (longest > MAX_LINE_LENGTH) {
+      return {
+        expression: ExpressionType.Concerned,
+        observation: `One line stretches ${longest} characters - consider breaking it up.`,
+        severity: 2
+      };
+    }
+    return undefined;
+  },
+
+  // Unfinished work markers
+  (lines) => {
+    const marker = lines.map(line => /\b(TODO|FIXME|HACK|XXX)\b/.exec(line)?.[1]).find(match => match);
+    if (marker) {
+      return {
+        expression: ExpressionType.Neutral,
+        observation: `There's a ${marker} here waiting to be dealt with.`,
+        severity: 2
+      };
+    }
+    return undefined;
+  },
+
+  // Unnamed numeric literals outside constant declarations
+  (lines) => {
+    for (const line of lines) {
+      if (/\b(const|final|static|readonly|#define)\b|^\s*[A-Z_][A-Z0-9_]*\s*=/.test(line)) {
+        continue;
+      }
+      const numbers = stripLiteralsAndComments(line).match(/(?<![\w.])\d+(\.\d+)?(?![\w.])/g) ?? [];
+      const magic = numbers.find(value => !ALLOWED_NUMBERS.has(value));
+      if (magic) {
+        return {
+          expression: ExpressionType.Neutral,
+          observation: `What does ${magic} mean? A named constant would tell me.`,
+          severity: 1
+        };
+      }
+    }
+    return undefined;
+  }
+];
+
+/**
+ * Generates commentary from simple heuristics, without any LLM,
+ * so the pet can still react when no backend is reachable
+ */
+export class OfflineCommentaryEngine {
+  /**
+   * Runs all heuristics over the code context
+   * @param codeContext The code context to analyze
+   * @returns The findings, most severe first
+   */
+  analyze(codeContext: CodeContext): CodeFinding[] {
+    const lines = codeContext.snippet.split('\n');
+    return RULES
+      .map(rule => rule(lines, codeContext))
+      .filter((finding): finding is CodeFinding => finding !== undefined)
+      .sort((a, b) => b.severity - a.severity);
+  }
+
+  /**
+   * Generates in-character commentary for the most severe finding
+   * @param codeContext The code context to comment on
+   * @param petType The pet whose voice to use
+   * @returns The structured commentary response
+   */
+  generate(codeContext: CodeContext, petType: PetType): StructuredCommentaryResponse {
+    const finding = this.analyze(codeContext)[0] ?? {
+      expression: ExpressionType.Happy,
+      observation: 'Nothing spooky in these lines.',
+      severity: 0
+    };
+
+    const reaction = pickLeadIn(petType, finding.expression, codeContext.snippet.length);
+
+    return {
+      commentary: `${reaction} ${finding.observation}`.substring(0, 200),
+      expression: finding.expression
+    };
+  }
+
+  /**
+   * Generates in-character commentary on a finished build or test task
+   * @param taskResult How the task ended
+   * @param petType The pet whose voice to use
+   * @returns The structured commentary response
+   */
+  generateForTask(taskResult: TaskResult, petType: PetType): StructuredCommentaryResponse {
+    const expression = taskResult.recovered ? ExpressionType.Happy : ExpressionType.Concerned;
+    const observation = taskResult.recovered
+      ? `The ${taskResult.name} ${taskResult.kind} passes again!`
+      : `The ${taskResult.name} ${taskResult.kind} failed with exit code ${taskResult.exitCode}.`;
+
+    const reaction = pickLeadIn(petType, expression, taskResult.name.length);
+
+    return {
+      commentary: `${reaction} ${observation}`.substring(0, 200),
+      expression
+    };
+  }
+
+  /**
+   * Generates in-character commentary on a failed terminal command, naming a well-known cause if the output shows one
+   * @param terminalContext The command and the tail of its output
+   * @param petType The pet whose voice to use
+   * @returns The structured commentary response
+   */
+  generateForTerminal(terminalContext: TerminalContext, petType: PetType): StructuredCommentaryResponse {
+    const diagnosis = TERMINAL_DIAGNOSES.find(({ pattern }) => pattern.test(terminalContext.output));
+    const observation = diagnosis?.observation ?? `That command failed with exit code ${terminalContext.exitCode}.`;
+
+    const reaction = pickLeadIn(petType, ExpressionType.Concerned, terminalContext.commandLine.length);
+
+    return {
+      commentary: `${reaction} ${observation}`.substring(0, 200),
+      expression: ExpressionType.Concerned
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { ProviderType } from '../models/ProviderType.js';
+import { CompletionRequest, LLMProvider, ProviderHttpRequest, TokenUsage } from './LLMProvider.js';
+
+/**
+ * Interface for Ollama-style /api/chat request
+ */
+export interface OllamaRequest {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  stream: boolean;
+  format: 'json';
+  options: {
+    num_predict: number;
+    temperature: number;
+  };
+}
+
+/**
+ * Interface for Ollama-style /api/chat response
+ */
+export interface OllamaResponse {
+  message?: {
+    role: string;
+    content: string;
+  };
+  done?: boolean;
+  prompt_eval_count?: number;  // Set on the final response
+  eval_count?: number;  // Set on the final response
+}
+
+/**
+ * Interface for Ollama-style /api/tags response
+ */
+export interface OllamaTagsResponse {
+  models?: Array<{
+    name: string;
+  }>;
+}
+
+/**
+ * Provider for local Ollama or llama.cpp servers exposing an Ollama-style chat endpoint
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly type = ProviderType.Ollama;
+  readonly defaultEndpoint = 'http://localhost:11434/api/chat';
+  readonly defaultModel = 'llama3.2';
+  readonly requiresApiKey = false;
+  readonly streamFormat = 'ndjson';
+
+  /**
+   * Builds the /api/chat payload
+   * @param request The completion request
+   * @returns The Ollama request payload
+   */
+  buildPayload(request: CompletionRequest): OllamaRequest {
+    return {
+      model: request.model,
+      messages: [
+        {
+          role: 'system',
+          content: request.systemPrompt
+        },
+        {
+          role: 'user',
+          content: request.userPrompt
+        }
+      ],
+      stream: request.stream ?? false,
+      format: 'json',
+      options: {
+        num_predict: request.maxTokens,
+        temperature: request.temperature
+      }
+    };
+  }
+
+  buildHttpRequest(request: CompletionRequest, endpoint: string, apiKey: string | undefined): ProviderHttpRequest {
+    // Local servers need no key, but forward one if configured (e.g. behind an auth proxy)
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    return {
+      url: endpoint,
+      headers,
+      body: this.buildPayload(request)
+    };
+  }
+
+  parseResponse(data: unknown): string {
+    const message = (data as OllamaResponse).message?.content;
+    if (!message) {
+      throw new Error('Invalid API response: no message content');
+    }
+
+    return message;
+  }
+
+  parseStreamEvent(data: string): string | undefined {
+    return (JSON.parse(data) as OllamaResponse).message?.content || undefined;
+  }
+
+  parseUsage(data: unknown): TokenUsage | undefined {
+    const response = data as OllamaResponse;
+    if (response.prompt_eval_count === undefined && response.eval_count === undefined) {
+      return undefined;
+    }
+
+    return {
+      promptTokens: response.prompt_eval_count ?? 0,
+      completionTokens: response.eval_count ?? 0
+    };
+  }
+
+  parseStreamUsage(data: string): Partial<TokenUsage> | undefined {
+    return this.parseUsage(JSON.parse(data));
+  }
+
+  /**
+   * Gets the URL of the model list endpoint on the same server as the chat endpoint
+   * @param endpoint The configured chat endpoint
+   * @returns The model list URL
+   */
+  getModelListUrl(endpoint: string): string {
+    return new URL('/api/tags', endpoint).toString();
+  }
+
+  /**
+   * Extracts model names from a parsed /api/tags response body
+   * @param data The parsed response body
+   * @returns The available model names
+   */
+  parseModelList(data: unknown): string[] {
+    const models = (data as OllamaTagsResponse).models ?? [];
+    return models.map(model => model.name).filter(name => !!name);
+  }
+}
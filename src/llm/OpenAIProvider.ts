@@ -0,0 +1,150 @@
+import { ProviderType } from '../models/ProviderType.js';
+import { CompletionRequest, LLMProvider, ProviderHttpRequest, TokenUsage } from './LLMProvider.js';
+
+/**
+ * Interface for OpenAI-compatible API request
+ */
+export interface LLMRequest {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  max_tokens: number;
+  temperature: number;
+  stream?: boolean;
+  stream_options?: {
+    include_usage: boolean;
+  };
+}
+
+/**
+ * Interface for the token usage block of an OpenAI-compatible response
+ */
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens?: number;
+}
+
+/**
+ * Interface for OpenAI-compatible API response
+ */
+export interface LLMResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+  usage?: LLMUsage;
+}
+
+/**
+ * Interface for a streamed OpenAI-compatible chunk
+ */
+export interface LLMStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  usage?: LLMUsage | null;  // Only set on the final chunk when usage was requested
+}
+
+/**
+ * Provider for OpenAI-compatible chat-completions endpoints
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly type = ProviderType.OpenAI;
+  readonly defaultEndpoint = 'https://api.openai.com/v1/chat/completions';
+  readonly defaultModel = 'gpt-3.5-turbo';
+  readonly requiresApiKey = true;
+  readonly streamFormat = 'sse';
+
+  /**
+   * Builds the chat-completions payload
+   * @param request The completion request
+   * @returns The OpenAI request payload
+   */
+  buildPayload(request: CompletionRequest): LLMRequest {
+    return {
+      model: request.model,
+      messages: [
+        {
+          role: 'system',
+          content: request.systemPrompt
+        },
+        {
+          role: 'user',
+          content: request.userPrompt
+        }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      // Ask for a final usage chunk, which streamed responses otherwise omit
+      ...(request.stream ? { stream: true, stream_options: { include_usage: true } } : {})
+    };
+  }
+
+  buildHttpRequest(request: CompletionRequest, endpoint: string, apiKey: string | undefined): ProviderHttpRequest {
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    return {
+      url: endpoint,
+      headers,
+      body: this.buildPayload(request)
+    };
+  }
+
+  parseResponse(data: unknown): string {
+    const response = data as LLMResponse;
+
+    if (!response.choices || response.choices.length === 0) {
+      throw new Error('Invalid API response: no choices returned');
+    }
+
+    const message = response.choices[0]?.message?.content;
+    if (!message) {
+      throw new Error('Invalid API response: no message content');
+    }
+
+    return message;
+  }
+
+  parseStreamEvent(data: string): string | undefined {
+    if (data === '[DONE]') {
+      return undefined;
+    }
+
+    const chunk = JSON.parse(data) as LLMStreamChunk;
+    return chunk.choices?.[0]?.delta?.content || undefined;
+  }
+
+  parseUsage(data: unknown): TokenUsage | undefined {
+    return this.toTokenUsage((data as LLMResponse).usage);
+  }
+
+  parseStreamUsage(data: string): Partial<TokenUsage> | undefined {
+    if (data === '[DONE]') {
+      return undefined;
+    }
+
+    return this.toTokenUsage((JSON.parse(data) as LLMStreamChunk).usage);
+  }
+
+  /**
+   * Converts an OpenAI usage block to provider-neutral token counts
+   * @param usage The usage block, if present
+   * @returns The token usage, or undefined if no usage block was present
+   */
+  private toTokenUsage(usage: LLMUsage | null | undefined): TokenUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0
+    };
+  }
+}
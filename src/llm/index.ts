@@ -0,0 +1,8 @@
+export { LLMProvider, CompletionRequest, CompletionResult, ProviderHttpRequest, TokenUsage } from './LLMProvider.js';
+export { StreamFormat, readStreamEvents } from './streamReader.js';
+export { OpenAIProvider, LLMRequest, LLMResponse, LLMStreamChunk, LLMUsage } from './OpenAIProvider.js';
+export { AnthropicProvider, AnthropicRequest, AnthropicResponse, AnthropicStreamEvent, AnthropicUsage } from './AnthropicProvider.js';
+export { OllamaProvider, OllamaRequest, OllamaResponse, OllamaTagsResponse } from './OllamaProvider.js';
+export { OfflineCommentaryEngine, CodeFinding } from './OfflineCommentaryEngine.js';
+export { createProvider } from './providers.js';
+export { estimateTokens, fitSnippet, SnippetBudget, FittedSnippet } from './tokenizer.js';
@@ -0,0 +1,23 @@
+import { ProviderType } from '../models/ProviderType.js';
+import { LLMProvider } from './LLMProvider.js';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { AnthropicProvider } from './AnthropicProvider.js';
+import { OllamaProvider } from './OllamaProvider.js';
+
+/**
+ * Factories for each supported provider type
+ */
+const PROVIDER_FACTORIES: Record<ProviderType, () => LLMProvider> = {
+  [ProviderType.OpenAI]: () => new OpenAIProvider(),
+  [ProviderType.Anthropic]: () => new AnthropicProvider(),
+  [ProviderType.Ollama]: () => new OllamaProvider()
+};
+
+/**
+ * Creates the provider implementation for the given provider type
+ * @param type The provider type
+ * @returns The provider implementation
+ */
+export function createProvider(type: ProviderType): LLMProvider {
+  return PROVIDER_FACTORIES[type]();
+}
@@ -0,0 +1,57 @@
+/**
+ * Wire formats used by providers for streamed responses
+ */
+export type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * Reads a streamed response body and yields one event payload at a time
+ * @param body The response body stream
+ * @param format The stream format: server-sent events yield each `data:` payload,
+ *               newline-delimited JSON yields each non-empty line
+ */
+export async function* readStreamEvents(
+  body: AsyncIterable<Uint8Array | string>,
+  format: StreamFormat
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  for await (const chunk of body) {
+    pending += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newlineIndex = pending.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const payload = parseLine(pending.substring(0, newlineIndex), format);
+      pending = pending.substring(newlineIndex + 1);
+      if (payload !== undefined) {
+        yield payload;
+      }
+      newlineIndex = pending.indexOf('\n');
+    }
+  }
+
+  const payload = parseLine(pending + decoder.decode(), format);
+  if (payload !== undefined) {
+    yield payload;
+  }
+}
+
+/**
+ * Extracts the event payload from a single line of the stream
+ */
+function parseLine(rawLine: string, format: StreamFormat): string | undefined {
+  const line = rawLine.replace(/\r$/, '');
+  if (!line.trim()) {
+    return undefined;
+  }
+
+  if (format === 'ndjson') {
+    return line;
+  }
+
+  // Ignore SSE comments and event/id fields; only data carries the payload
+  if (!line.startsWith('data:')) {
+    return undefined;
+  }
+  return line.substring(5).replace(/^ /, '');
+}
@@ -0,0 +1,115 @@
+/**
+ * Options for fitting a snippet into a token budget
+ */
+export interface SnippetBudget {
+  lines: string[];  // The extracted snippet, one entry per line
+  focusIndex: number;  // Index of the cursor line within lines
+  before?: string[];  // Lines above the snippet that may be added, nearest last
+  after?: string[];  // Lines below the snippet that may be added, nearest first
+  maxTokens: number;  // Tokens the snippet may use
+}
+
+/**
+ * Interface for a snippet fitted into a token budget
+ */
+export interface FittedSnippet {
+  text: string;
+  tokens: number;  // Estimated tokens of text
+}
+
+const TRUNCATION_MARKER = ' …';
+
+/**
+ * Approximates the number of tokens a BPE tokenizer produces for the text:
+ * words cost one token per four characters, every other symbol one token,
+ * and runs of whitespace other than single spaces one token
+ * @param text The text to measure
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(/[A-Za-z0-9_]+|\s+|[^A-Za-z0-9_\s]/g)) {
+    const piece = match[0];
+    if (/^[A-Za-z0-9_]/.test(piece)) {
+      tokens += Math.ceil(piece.length / 4);
+    } else if (piece !== ' ') {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Fits a snippet into a token budget with whole lines centred on the cursor line.
+ * A snippet under budget grows with the surrounding lines; one over budget loses
+ * the lines furthest from the cursor. Only a cursor line that is too long on its own,
+ * such as minified code, is cut short
+ * @param budget The snippet, its surroundings and the budget
+ * @returns The fitted snippet and its estimated token count
+ */
+export function fitSnippet(budget: SnippetBudget): FittedSnippet {
+  const { lines, maxTokens } = budget;
+  const lineTokens = (line: string) => estimateTokens(line) + 1;  // One token for the newline
+
+  // Everything above and below the cursor line, nearest first
+  const focusIndex = Math.min(Math.max(0, budget.focusIndex), Math.max(0, lines.length - 1));
+  const above = [...lines.slice(0, focusIndex)].reverse().concat([...(budget.before ?? [])].reverse());
+  const below = lines.slice(focusIndex + 1).concat(budget.after ?? []);
+
+  let focus = lines[focusIndex] ?? '';
+  let tokens = lineTokens(focus);
+  if (tokens > maxTokens) {
+    focus = truncateToTokens(focus, Math.max(0, maxTokens - estimateTokens(TRUNCATION_MARKER) - 1));
+    tokens = lineTokens(focus);
+  }
+
+  // Alternate sides so the cursor stays centred; a side stops at its first line that does not fit
+  const kept = [focus];
+  let aboveIndex = 0;
+  let belowIndex = 0;
+  let canGrowAbove = true;
+  let canGrowBelow = true;
+  while (canGrowAbove || canGrowBelow) {
+    if (canGrowAbove) {
+      const line = above[aboveIndex];
+      if (line !== undefined && tokens + lineTokens(line) <= maxTokens) {
+        kept.unshift(line);
+        tokens += lineTokens(line);
+        aboveIndex++;
+      } else {
+        canGrowAbove = false;
+      }
+    }
+    if (canGrowBelow) {
+      const line = below[belowIndex];
+      if (line !== undefined && tokens + lineTokens(line) <= maxTokens) {
+        kept.push(line);
+        tokens += lineTokens(line);
+        belowIndex++;
+      } else {
+        canGrowBelow = false;
+      }
+    }
+  }
+
+  const text = kept.join('\n');
+  return { text, tokens: estimateTokens(text) };
+}
+
+/**
+ * Cuts a line down to roughly the given number of tokens, marking the cut
+ */
+function truncateToTokens(line: string, maxTokens: number): string {
+  // Binary search for the longest prefix that fits
+  let low = 0;
+  let high = line.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (estimateTokens(line.substring(0, middle)) <= maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return line.substring(0, low) + TRUNCATION_MARKER;
+}
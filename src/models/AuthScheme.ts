@@ -0,0 +1,9 @@
+/**
+ * Enum representing how the API key is sent to an endpoint
+ */
+export enum AuthScheme {
+  Provider = 'provider',  // The provider's native scheme (Bearer, x-api-key, ...)
+  Bearer = 'bearer',  // Authorization: Bearer <key>
+  ApiKey = 'api-key',  // <authHeader>: <key>, e.g. Azure OpenAI's api-key header
+  None = 'none'  // No key is sent
+}
@@ -0,0 +1,8 @@
+/**
+ * Enum representing the health of the LLM endpoint as seen by the circuit breaker
+ */
+export enum CircuitState {
+  Closed = 'closed',  // Healthy, requests flow normally
+  Open = 'open',  // Failing, requests are suppressed until the cooldown ends
+  HalfOpen = 'halfOpen'  // Cooldown over, a single probe request decides the next state
+}
@@ -1,3 +1,7 @@
+import { EnclosingSymbol } from './EnclosingSymbol.js';
+import { CodeDiagnostic } from './CodeDiagnostic.js';
+import { ContextMode } from './ContextMode.js';
+
 /**
  * Interface representing the code context around the user's cursor
  */
@@ -6,4 +10,13 @@ export interface CodeContext {
   snippet: string;
   lineNumber: number;
   fileName: string;
+  startLine?: number;  // Optional: 1-based line of the snippet's first line
+  linesBefore?: string[];  // Optional: lines above the snippet, added when the token budget allows
+  linesAfter?: string[];  // Optional: lines below the snippet, added when the token budget allows
+  symbol?: EnclosingSymbol;  // Optional: innermost function, method or class around the cursor
+  diagnostics?: CodeDiagnostic[];  // Optional: compiler and linter problems inside the snippet
+  mode?: ContextMode;  // Optional: how the snippet was chosen (a diff when ContextMode.Diff)
+  diffDescription?: string;  // Optional: what a diff snippet shows (default: uncommitted changes)
+  question?: string;  // Optional: the developer's question about the snippet
+  occasion?: string;  // Optional: what prompted the commentary, such as a burst of new errors
 }
@@ -0,0 +1,11 @@
+import { DiagnosticLevel } from './DiagnosticLevel.js';
+
+/**
+ * Interface representing a compiler or linter problem inside the code context
+ */
+export interface CodeDiagnostic {
+  line: number;  // 1-based line number
+  level: DiagnosticLevel;
+  message: string;
+  source?: string;  // Optional: the tool that reported it, e.g. 'ts' or 'eslint'
+}
@@ -0,0 +1,9 @@
+/**
+ * Enum representing how the code sent to the pet is chosen
+ */
+export enum ContextMode {
+  Cursor = 'cursor',  // Lines around the cursor
+  Symbol = 'symbol',  // Enclosing function, method or class, else lines around the cursor
+  Diff = 'diff',  // Uncommitted changes to the file
+  Selection = 'selection'  // Selected lines
+}
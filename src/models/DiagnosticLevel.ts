@@ -0,0 +1,9 @@
+/**
+ * Enum representing the severities of compiler and linter problems
+ */
+export enum DiagnosticLevel {
+  Error = 'error',
+  Warning = 'warning',
+  Information = 'information',
+  Hint = 'hint'
+}
@@ -0,0 +1,8 @@
+/**
+ * Interface representing a function, method or class that encloses the cursor
+ */
+export interface EnclosingSymbol {
+  name: string;
+  kind: string;  // e.g. 'function', 'method', 'class'
+  container?: EnclosingSymbol;  // Optional: the next enclosing function, method or class
+}
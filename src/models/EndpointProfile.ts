@@ -0,0 +1,17 @@
+import { AuthScheme } from './AuthScheme.js';
+import { ProviderType } from './ProviderType.js';
+
+/**
+ * Interface representing a named endpoint configuration, e.g. for Azure OpenAI
+ * or a corporate gateway, with its own API key in secret storage
+ */
+export interface EndpointProfile {
+  name: string;
+  provider?: ProviderType;  // Wire format, defaults to spookyPets.provider
+  url: string;  // May contain {model}, e.g. for Azure deployment names
+  model?: string;  // Defaults to spookyPets.model or the provider's default
+  authScheme?: AuthScheme;  // Defaults to the provider's native scheme
+  authHeader?: string;  // Header name for the api-key scheme (default: api-key)
+  headers?: Record<string, string>;
+  queryParams?: Record<string, string>;
+}
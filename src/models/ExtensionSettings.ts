@@ -1,4 +1,11 @@
 import { PetType } from './PetType.js';
+import { ProviderType } from './ProviderType.js';
+import { ModelPrice } from './ModelPrice.js';
+import { EndpointProfile } from './EndpointProfile.js';
+import { DiagnosticLevel } from './DiagnosticLevel.js';
+import { ContextMode } from './ContextMode.js';
+import { RedactionRule } from './RedactionRule.js';
+import { TriggerSettings } from './TriggerSettings.js';
 
 /**
  * Interface representing all extension settings
@@ -6,10 +13,36 @@ import { PetType } from './PetType.js';
 export interface ExtensionSettings {
   'spookyPets.apiKey': string;  // Stored in secrets
   'spookyPets.commentaryFrequency': number;  // minutes
+  'spookyPets.triggers': Record<string, TriggerSettings>;  // Keyed by trigger id
+  'spookyPets.stuckAfterMinutes': number;  // 0 disables the stuck hint
+  'spookyPets.sleepAfterMinutes': number;  // 0 keeps the pet awake
   'spookyPets.selectedPet': PetType;
   'spookyPets.customPrompts': Record<PetType, string>;
+  'spookyPets.provider': ProviderType;  // Wire format used to talk to the LLM
   'spookyPets.apiEndpoint': string;  // OpenAI-compatible endpoint
   'spookyPets.model': string;  // Model name
+  'spookyPets.endpointProfiles': EndpointProfile[];
+  'spookyPets.activeProfile': string;  // Empty to use the provider settings above
+  'spookyPets.failoverProfiles': string[];  // Profile names tried in order when the active endpoint fails
   'spookyPets.maxTokens': number;
+  'spookyPets.requestTimeout': number;  // seconds, 0 disables the timeout
+  'spookyPets.offlineFallback': boolean;  // Rule-based commentary when the LLM is unavailable
+  'spookyPets.cacheEnabled': boolean;
+  'spookyPets.cacheMaxEntries': number;
+  'spookyPets.cacheTtlHours': number;
+  'spookyPets.requestsPerMinute': number;  // 0 disables the limit
+  'spookyPets.tokensPerMinute': number;  // 0 disables the limit
+  'spookyPets.circuitBreakerThreshold': number;  // Consecutive failures, 0 disables the breaker
+  'spookyPets.circuitBreakerCooldown': number;  // seconds
+  'spookyPets.modelPrices': Record<string, ModelPrice>;  // USD per million tokens, keyed by model name
+  'spookyPets.monthlyBudget': number;  // USD, 0 disables the cap
+  'spookyPets.streaming': boolean;  // Stream commentary into the speech bubble
+  'spookyPets.exclude': string[];  // Glob patterns of files never commented on automatically
+  'spookyPets.languages': string[];  // Allowed language ids, or denied when prefixed with "!"
+  'spookyPets.contextMode': ContextMode;  // Which code the pet comments on
   'spookyPets.contextLines': number;  // Lines of code to include
+  'spookyPets.maxPromptTokens': number;  // Approximate prompt token budget (0 for no limit)
+  'spookyPets.diagnosticSeverities': DiagnosticLevel[];  // Problems to include in the context
+  'spookyPets.redactionEnabled': boolean;  // Mask secrets before code is sent
+  'spookyPets.redactionRules': RedactionRule[];  // Added to the built-in rules
 }
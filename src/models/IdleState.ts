@@ -0,0 +1,8 @@
+/**
+ * Enum representing how long the user has been away, shown by the pet
+ */
+export enum IdleState {
+  Active = 'active',
+  Drowsy = 'drowsy',  // Half the sleep timeout has passed; the pet stops wandering
+  Asleep = 'asleep'  // The pet curls up and sleeps until the user is back
+}
@@ -0,0 +1,121 @@
+import { ExpressionType } from './ExpressionType.js';
+
+/**
+ * Interface representing the newly available parts of a streamed structured response
+ */
+export interface PartialCommentary {
+  commentaryDelta: string;  // Commentary text decoded since the previous chunk
+  expression?: ExpressionType;  // Set once the expression field has been fully received
+}
+
+/**
+ * Result of decoding a (possibly unterminated) JSON string field
+ */
+interface PartialStringField {
+  value: string;
+  complete: boolean;
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  'b': '\b',
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t'
+};
+
+/**
+ * Incrementally parses a structured commentary response while it is being streamed,
+ * so the speech bubble can be filled before the JSON object is complete
+ */
+export class IncrementalCommentaryParser {
+  private buffer: string = '';
+  private emittedLength: number = 0;
+  private expression?: ExpressionType;
+
+  /**
+   * Appends a chunk of raw response text
+   * @param chunk The raw text received since the last call
+   * @returns The commentary text and expression that became available with this chunk
+   */
+  push(chunk: string): PartialCommentary {
+    this.buffer += chunk;
+    const result: PartialCommentary = { commentaryDelta: '' };
+
+    const commentary = IncrementalCommentaryParser.readStringField(this.buffer, 'commentary');
+    if (commentary && commentary.value.length > this.emittedLength) {
+      result.commentaryDelta = commentary.value.substring(this.emittedLength);
+      this.emittedLength = commentary.value.length;
+    }
+
+    if (!this.expression) {
+      const expression = IncrementalCommentaryParser.readStringField(this.buffer, 'expression');
+      if (expression?.complete && Object.values(ExpressionType).includes(expression.value as ExpressionType)) {
+        this.expression = expression.value as ExpressionType;
+        result.expression = this.expression;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Gets all raw text received so far
+   */
+  getBuffer(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Decodes the value of a string field from a partial JSON object
+   * @param json The partial JSON text
+   * @param field The field name
+   * @returns The decoded value so far, or undefined if the field has not started
+   */
+  private static readStringField(json: string, field: string): PartialStringField | undefined {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+    if (!match) {
+      return undefined;
+    }
+
+    let value = '';
+    let index = match.index + match[0].length;
+
+    while (index < json.length) {
+      const char = json[index];
+
+      if (char === '"') {
+        return { value, complete: true };
+      }
+
+      if (char !== '\\') {
+        value += char;
+        index++;
+        continue;
+      }
+
+      // Stop at an escape sequence that has not been fully received yet
+      const escape = json[index + 1];
+      if (escape === undefined) {
+        break;
+      }
+
+      if (escape === 'u') {
+        const hex = json.substring(index + 2, index + 6);
+        if (hex.length < 4) {
+          break;
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        index += 6;
+      } else {
+        value += SIMPLE_ESCAPES[escape] ?? escape;
+        index += 2;
+      }
+    }
+
+    return { value, complete: false };
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Interface representing the price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;  // Prompt tokens
+  output: number;  // Completion tokens
+}
@@ -15,5 +15,6 @@ export interface PetConfig {
   happyExpressionFrames: number[];  // 2-3 frames for happy expression
   neutralExpressionFrames: number[];  // 2-3 frames for neutral expression
   concernedExpressionFrames: number[];  // 2-3 frames for concerned expression
+  sleepFrames?: number[];  // Played slowly while the user is away (default: the first two idle frames)
   frameDuration: number;  // milliseconds per frame
 }
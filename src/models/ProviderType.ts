@@ -0,0 +1,8 @@
+/**
+ * Enum representing the supported LLM backends
+ */
+export enum ProviderType {
+  OpenAI = 'openai',
+  Anthropic = 'anthropic',
+  Ollama = 'ollama'
+}
@@ -0,0 +1,9 @@
+/**
+ * Interface representing a pattern that is masked before code leaves the machine
+ */
+export interface RedactionRule {
+  name: string;  // Shown in the placeholder and the redaction log
+  pattern: string;  // Regular expression source
+  flags?: string;  // Optional: regular expression flags ('g' is always added)
+  replacement?: string;  // Optional: text to put in place of a match (default: [REDACTED:name])
+}
@@ -7,4 +7,6 @@ export interface StructuredCommentaryResponse {
   commentary: string;  // The text to display in the speech bubble
   expression: ExpressionType;  // Which expression animation to show
   sentiment?: number;  // Optional: -1 to 1 scale for fine-grained sentiment
+  backend?: string;  // Optional: name of the endpoint that answered
+  isFallback?: boolean;  // Optional: true if a failover endpoint answered
 }
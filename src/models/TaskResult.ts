@@ -0,0 +1,9 @@
+/**
+ * Interface representing how a build or test task ended, for commentary that is not about code
+ */
+export interface TaskResult {
+  name: string;  // Task name as shown in the Run Task list
+  kind: 'build' | 'test';
+  exitCode: number;
+  recovered: boolean;  // True when the task passes after failing last time
+}
@@ -0,0 +1,9 @@
+/**
+ * Interface representing a command that failed in the integrated terminal
+ */
+export interface TerminalContext {
+  commandLine: string;
+  exitCode: number;
+  output: string;  // The last lines the command wrote, without escape sequences
+  outputTruncated: boolean;  // True when earlier output was dropped
+}
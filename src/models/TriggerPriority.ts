@@ -0,0 +1,10 @@
+/**
+ * Enum representing how urgently commentary should be shown; a request only
+ * supersedes one in flight of the same or lower priority, otherwise it waits
+ */
+export enum TriggerPriority {
+  Low = 0,
+  Normal = 1,  // Typing
+  High = 2,  // Something went wrong, such as a burst of new errors
+  Manual = 3  // Commands the user ran, never superseded by automatic triggers
+}
@@ -0,0 +1,7 @@
+/**
+ * Interface representing the settings of a single commentary trigger
+ */
+export interface TriggerSettings {
+  enabled: boolean;
+  cooldownSeconds: number;  // Minimum time between two commentaries from this trigger
+}
@@ -0,0 +1,9 @@
+/**
+ * Interface representing accumulated token usage and cost
+ */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;  // USD, priced when each request was recorded
+}
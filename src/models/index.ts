@@ -1,9 +1,26 @@
 export { PetType } from './PetType.js';
 export { PetConfig } from './PetConfig.js';
 export { CodeContext } from './CodeContext.js';
+export { TaskResult } from './TaskResult.js';
+export { TerminalContext } from './TerminalContext.js';
+export { EnclosingSymbol } from './EnclosingSymbol.js';
+export { CodeDiagnostic } from './CodeDiagnostic.js';
+export { DiagnosticLevel } from './DiagnosticLevel.js';
+export { ContextMode } from './ContextMode.js';
+export { RedactionRule } from './RedactionRule.js';
+export { TriggerPriority } from './TriggerPriority.js';
+export { TriggerSettings } from './TriggerSettings.js';
 export { CommentaryRequest } from './CommentaryRequest.js';
 export { CommentaryResponse } from './CommentaryResponse.js';
 export { ExtensionSettings } from './ExtensionSettings.js';
 export { ExpressionType } from './ExpressionType.js';
+export { ProviderType } from './ProviderType.js';
+export { AuthScheme } from './AuthScheme.js';
+export { EndpointProfile } from './EndpointProfile.js';
+export { CircuitState } from './CircuitState.js';
+export { IdleState } from './IdleState.js';
+export { ModelPrice } from './ModelPrice.js';
+export { UsageTotals } from './UsageTotals.js';
 export { StructuredCommentaryResponse } from './StructuredCommentaryResponse.js';
+export { IncrementalCommentaryParser, PartialCommentary } from './IncrementalCommentaryParser.js';
 export { CommentaryResponseSchema, parseStructuredResponse, isValidStructuredResponse } from './CommentaryResponseSchema.js';
@@ -1,8 +1,18 @@
+import { ExpressionType } from '../models/ExpressionType.js';
+
+/**
+ * Interface representing a line in a pet's voice and the expression it goes with
+ */
+export interface ExampleComment {
+  text: string;
+  expression: ExpressionType;
+}
+
 /**
  * Interface representing a pet's personality configuration
  */
 export interface Personality {
   systemPrompt: string;
   commentaryStyle: string;
-  exampleComments: string[];
+  exampleComments: ExampleComment[];  // Also the lead-ins for rule-based commentary, so keep them general
 }
@@ -1,2 +1,2 @@
-export { Personality } from './Personality.js';
+export { ExampleComment, Personality } from './Personality.js';
 export { PERSONALITIES } from './personalities.js';
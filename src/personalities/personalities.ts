@@ -1,4 +1,5 @@
 import { PetType } from '../models/PetType.js';
+import { ExpressionType } from '../models/ExpressionType.js';
 import { Personality } from './Personality.js';
 
 /**
@@ -22,9 +23,13 @@ Examples:
 - Concerned: "I'm getting some spooky vibes from this nested loop. Maybe time to flatten it out?" (expression: "concerned")`,
     commentaryStyle: 'Playful, punny, autumn-themed with helpful observations',
     exampleComments: [
-      "Ooh, that's a gourd-geous function you're carving there!",
-      "This code looks ripe for refactoring... or should I say, ready to harvest?",
-      "I'm getting some spooky vibes from this nested loop. Maybe time to flatten it out?"
+      { text: "Ooh, that's a gourd-geous function you're carving there!", expression: ExpressionType.Happy },
+      { text: "This code looks ripe for refactoring... or should I say, ready to harvest?", expression: ExpressionType.Neutral },
+      { text: "I'm getting some spooky vibes from this patch.", expression: ExpressionType.Concerned },
+      { text: "Now that's a fine patch of code!", expression: ExpressionType.Happy },
+      { text: "Hmm, curious little seed here...", expression: ExpressionType.Neutral },
+      { text: "Let me poke my stem in here...", expression: ExpressionType.Neutral },
+      { text: "Uh oh, this patch needs weeding...", expression: ExpressionType.Concerned }
     ]
   },
   [PetType.Skeleton]: {
@@ -44,9 +49,13 @@ Examples:
 - Concerned: "That bug is going to rattle your bones if you don't catch it soon." (expression: "concerned")`,
     commentaryStyle: 'Dry, sarcastic, bone-themed with experienced insights',
     exampleComments: [
-      "I've got a bone to pick with this implementation... but it's not bad to the bone.",
-      "This code structure is so bare bones, even I'm impressed.",
-      "That bug is going to rattle your bones if you don't catch it soon."
+      { text: "I've got a bone to pick with this implementation... but it's not bad to the bone.", expression: ExpressionType.Neutral },
+      { text: "This code structure is so bare bones, even I'm impressed.", expression: ExpressionType.Happy },
+      { text: "This is going to rattle your bones if you don't catch it soon.", expression: ExpressionType.Concerned },
+      { text: "Even my old bones approve.", expression: ExpressionType.Happy },
+      { text: "I've seen this before... many times.", expression: ExpressionType.Neutral },
+      { text: "Another century, another snippet.", expression: ExpressionType.Neutral },
+      { text: "I've got a bone to pick with this.", expression: ExpressionType.Concerned }
     ]
   },
   [PetType.Ghost]: {
@@ -66,9 +75,13 @@ Examples:
 - Concerned: "I sense a phantom bug haunting this function... can you feel it?" (expression: "concerned")`,
     commentaryStyle: 'Mysterious, ethereal, spirit-themed with insightful observations',
     exampleComments: [
-      "I sense a phantom bug haunting this function... can you feel it?",
-      "This code is so transparent, even I can see through it clearly.",
-      "The spirit of this algorithm whispers of elegance... but also of hidden complexity."
+      { text: "I sense a phantom bug haunting this code... can you feel it?", expression: ExpressionType.Concerned },
+      { text: "This code is so transparent, even I can see through it clearly.", expression: ExpressionType.Happy },
+      { text: "The spirit of this algorithm whispers of elegance... but also of hidden complexity.", expression: ExpressionType.Neutral },
+      { text: "This code's spirit shines brightly...", expression: ExpressionType.Happy },
+      { text: "The spirits whisper...", expression: ExpressionType.Neutral },
+      { text: "A phantom haunts these lines...", expression: ExpressionType.Concerned },
+      { text: "I sense a restless spirit here...", expression: ExpressionType.Concerned }
     ]
   }
 };
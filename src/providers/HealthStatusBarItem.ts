@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { CircuitBreaker } from '../services/CircuitBreaker.js';
+import { CircuitState } from '../models/CircuitState.js';
+
+/**
+ * Status bar item that appears while the LLM endpoint is unhealthy,
+ * replacing repeated error notifications with a single persistent indicator
+ */
+export class HealthStatusBarItem implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private circuitBreaker: CircuitBreaker;
+  private stateChangeDisposable: vscode.Disposable;
+
+  constructor(circuitBreaker: CircuitBreaker) {
+    this.circuitBreaker = circuitBreaker;
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.item.name = 'Spooky Pets Endpoint Health';
+    this.stateChangeDisposable = circuitBreaker.onDidChangeState(() => this.update());
+    this.update();
+  }
+
+  /**
+   * Shows or hides the item to match the circuit state
+   */
+  update(): void {
+    const state = this.circuitBreaker.getState();
+    if (state === CircuitState.Closed) {
+      this.item.hide();
+      return;
+    }
+
+    this.item.text = '$(debug-disconnect) Spooky Pets';
+    this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+
+    const probeTime = this.circuitBreaker.getNextProbeTime();
+    this.item.tooltip = state === CircuitState.Open && probeTime
+      ? `LLM endpoint unavailable. Your pet is napping and will check again at ${new Date(probeTime).toLocaleTimeString()}.`
+      : 'LLM endpoint unavailable. Your pet will check again with its next comment.';
+    this.item.show();
+  }
+
+  /**
+   * Disposes of resources
+   */
+  dispose(): void {
+    this.stateChangeDisposable.dispose();
+    this.item.dispose();
+  }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { PetType } from '../models/PetType.js';
 import { ExpressionType } from '../models/ExpressionType.js';
+import { IdleState } from '../models/IdleState.js';
 import { getSpriteConfig } from '../sprites/index.js';
 
 /**
@@ -12,6 +13,8 @@ export class PetPanelProvider implements vscode.WebviewViewProvider {
 
   private _view?: vscode.WebviewView;
   private _currentPet: PetType = PetType.Pumpkin;
+  private _isSleeping: boolean = false;
+  private _idleState: IdleState = IdleState.Active;
   private _extensionUri: vscode.Uri;
 
   constructor(private readonly context: vscode.ExtensionContext) {
@@ -78,6 +81,12 @@ export class PetPanelProvider implements vscode.WebviewViewProvider {
     // Show the initial pet
     try {
       this.showPet(this._currentPet);
+      if (this._isSleeping) {
+        this.setSleeping(true);
+      }
+      if (this._idleState !== IdleState.Active) {
+        this.setIdleState(this._idleState);
+      }
     } catch (error) {
       console.error('[PetPanelProvider] Failed to show initial pet:', error);
     }
@@ -131,14 +140,16 @@ export class PetPanelProvider implements vscode.WebviewViewProvider {
 
   /**
    * Display a speech bubble with commentary and expression animation
+   * @param fallbackBackend Name of the failover endpoint that answered, shown as a badge
    */
-  public showSpeechBubbleWithExpression(message: string, expression: ExpressionType): void {
+  public showSpeechBubbleWithExpression(message: string, expression: ExpressionType, fallbackBackend?: string): void {
     if (this._view) {
       try {
         this._view.webview.postMessage({
           type: 'showSpeechBubbleWithExpression',
           message: message,
-          expression: expression
+          expression: expression,
+          backend: fallbackBackend
         });
       } catch (error) {
         console.error('[PetPanelProvider] Failed to send showSpeechBubbleWithExpression message:', error);
@@ -146,6 +157,24 @@ export class PetPanelProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Append streamed text to the speech bubble, switching to the expression
+   * animation as soon as the expression is known
+   */
+  public appendSpeechBubble(text: string, expression?: ExpressionType): void {
+    if (this._view) {
+      try {
+        this._view.webview.postMessage({
+          type: 'appendSpeechBubble',
+          text: text,
+          expression: expression
+        });
+      } catch (error) {
+        console.error('[PetPanelProvider] Failed to send appendSpeechBubble message:', error);
+      }
+    }
+  }
+
   /**
    * Hide the speech bubble
    */
@@ -191,6 +220,54 @@ export class PetPanelProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Put the pet to sleep or wake it up, e.g. while the LLM endpoint is unavailable
+   */
+  public setSleeping(sleeping: boolean): void {
+    this._isSleeping = sleeping;
+    if (this._view) {
+      try {
+        this._view.webview.postMessage({
+          type: 'setSleeping',
+          sleeping: sleeping
+        });
+      } catch (error) {
+        console.error('[PetPanelProvider] Failed to send setSleeping message:', error);
+      }
+    }
+  }
+
+  /**
+   * Check if the pet is sleeping (for testing)
+   */
+  public isSleeping(): boolean {
+    return this._isSleeping;
+  }
+
+  /**
+   * Show whether the user is active, drifting away or gone, letting the pet doze off and sleep
+   */
+  public setIdleState(state: IdleState): void {
+    this._idleState = state;
+    if (this._view) {
+      try {
+        this._view.webview.postMessage({
+          type: 'setIdleState',
+          state: state
+        });
+      } catch (error) {
+        console.error('[PetPanelProvider] Failed to send setIdleState message:', error);
+      }
+    }
+  }
+
+  /**
+   * Get the idle state shown by the pet (for testing)
+   */
+  public getIdleState(): IdleState {
+    return this._idleState;
+  }
+
   /**
    * Get the current pet type
    */
@@ -229,10 +306,12 @@ export class PetPanelProvider implements vscode.WebviewViewProvider {
         <div id="processing-indicator" class="hidden">
             <div class="spinner"></div>
         </div>
+        <div id="sleep-indicator" class="hidden">z<span>z</span><span>z</span></div>
     </div>
     
     <div id="speech-bubble" class="hidden">
         <div class="speech-bubble-content"></div>
+        <div id="backend-badge" class="hidden"></div>
         <div class="speech-bubble-tail"></div>
     </div>
 
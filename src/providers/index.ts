@@ -1 +1,2 @@
 export { PetPanelProvider } from './PetPanelProvider.js';
+export { HealthStatusBarItem } from './HealthStatusBarItem.js';
@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from './ConfigurationManager.js';
+import { CircuitState } from '../models/CircuitState.js';
+
+/**
+ * Checks whether the endpoint answers again
+ * @returns True if it answers, false if it still fails, or undefined if it cannot be checked
+ */
+export type HealthProbe = () => Promise<boolean | undefined>;
+
+/**
+ * Circuit breaker for the LLM endpoint: after repeated failures it stops requests
+ * for a cooldown, then lets a single probe through to decide whether to resume
+ */
+export class CircuitBreaker implements vscode.Disposable {
+  private configManager: ConfigurationManager;
+  private now: () => number;
+
+  private state: CircuitState = CircuitState.Closed;
+  private consecutiveFailures: number = 0;
+  private isProbeInFlight: boolean = false;
+  private probeTimer?: NodeJS.Timeout;
+  private probeAt?: number;
+  private healthProbe?: HealthProbe;
+
+  private stateChangeEmitter: vscode.EventEmitter<CircuitState>;
+  public readonly onDidChangeState: vscode.Event<CircuitState>;
+
+  constructor(configManager: ConfigurationManager, now: () => number = Date.now) {
+    this.configManager = configManager;
+    this.now = now;
+    this.stateChangeEmitter = new vscode.EventEmitter<CircuitState>();
+    this.onDidChangeState = this.stateChangeEmitter.event;
+  }
+
+  /**
+   * Gets the current circuit state
+   * @returns The circuit state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Gets when the next probe will be allowed while the circuit is open
+   * @returns The probe time in milliseconds since the epoch, or undefined if not open
+   */
+  getNextProbeTime(): number | undefined {
+    return this.state === CircuitState.Open ? this.probeAt : undefined;
+  }
+
+  /**
+   * Sets the check sent once the cooldown ends, so the circuit recovers without waiting for a real request
+   * @param healthProbe The check to send
+   */
+  setHealthProbe(healthProbe: HealthProbe): void {
+    this.healthProbe = healthProbe;
+  }
+
+  /**
+   * Asks permission to send a request; in the half-open state only one probe is allowed
+   * @returns True if the request may be sent
+   */
+  tryAcquire(): boolean {
+    switch (this.state) {
+      case CircuitState.Closed:
+        return true;
+      case CircuitState.HalfOpen:
+        if (this.isProbeInFlight) {
+          return false;
+        }
+        this.isProbeInFlight = true;
+        return true;
+      case CircuitState.Open:
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Records a successful request, closing the circuit
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.isProbeInFlight = false;
+    this.transition(CircuitState.Closed);
+  }
+
+  /**
+   * Records a failed request, opening the circuit once the failure threshold is reached
+   * or immediately if the probe failed. Other failures while not closed come from requests
+   * sent before the circuit opened and are ignored, so they cannot push the cooldown out
+   * @param isProbe True if the request was the probe let through while half-open
+   */
+  recordFailure(isProbe: boolean = false): void {
+    if (isProbe) {
+      this.isProbeInFlight = false;
+      if (this.state === CircuitState.HalfOpen) {
+        this.open();
+        return;
+      }
+    }
+    if (this.state !== CircuitState.Closed) {
+      return;
+    }
+
+    this.consecutiveFailures++;
+
+    const threshold = this.configManager.getCircuitBreakerThreshold();
+    if (threshold > 0 && this.consecutiveFailures >= threshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * Records that the probe's outcome says nothing about endpoint health (e.g. cancelled),
+   * freeing the probe slot
+   */
+  releaseProbe(): void {
+    this.isProbeInFlight = false;
+  }
+
+  /**
+   * Opens the circuit and schedules the switch to half-open
+   */
+  private open(): void {
+    const cooldownMs = this.configManager.getCircuitBreakerCooldown() * 1000;
+
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+    }
+    this.probeAt = this.now() + cooldownMs;
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = undefined;
+      this.transition(CircuitState.HalfOpen);
+      this.sendHealthProbe();
+    }, cooldownMs);
+
+    console.warn(`[CircuitBreaker] Endpoint failing, pausing requests for ${cooldownMs / 1000}s`);
+    this.transition(CircuitState.Open);
+  }
+
+  /**
+   * Sends the health probe in place of a real request, closing or reopening the circuit on its result
+   */
+  private sendHealthProbe(): void {
+    if (!this.healthProbe || !this.tryAcquire()) {
+      return;
+    }
+
+    this.healthProbe().then((healthy) => {
+      if (healthy === undefined) {
+        this.releaseProbe();
+      } else if (healthy) {
+        this.recordSuccess();
+      } else {
+        this.recordFailure(true);
+      }
+    }, (error) => {
+      console.warn('[CircuitBreaker] Health probe failed:', error);
+      this.recordFailure(true);
+    });
+  }
+
+  /**
+   * Changes state and notifies listeners if it differs from the current one
+   */
+  private transition(state: CircuitState): void {
+    if (state === CircuitState.Closed && this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+    if (this.state === state) {
+      return;
+    }
+
+    console.log(`[CircuitBreaker] ${this.state} -> ${state}`);
+    this.state = state;
+    this.stateChangeEmitter.fire(state);
+  }
+
+  /**
+   * Disposes of resources
+   */
+  dispose(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+    this.stateChangeEmitter.dispose();
+  }
+}
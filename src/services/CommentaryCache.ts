@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { ConfigurationManager } from './ConfigurationManager.js';
+import { StructuredCommentaryResponse } from '../models/StructuredCommentaryResponse.js';
+
+/**
+ * Interface for a cached commentary response
+ */
+interface CacheEntry {
+  response: StructuredCommentaryResponse;
+  createdAt: number;
+}
+
+/**
+ * Interface for the on-disk cache file
+ */
+interface CacheFile {
+  version: number;
+  entries: Array<[string, CacheEntry]>;
+}
+
+/**
+ * Persistent LRU cache of commentary responses keyed by a hash of the prompt inputs,
+ * so unchanged code does not cost another LLM request
+ */
+export class CommentaryCache {
+  private static readonly FILE_NAME = 'commentary-cache.json';
+  private static readonly FILE_VERSION = 1;
+
+  private configManager: ConfigurationManager;
+  private storageUri: vscode.Uri;
+  private now: () => number;
+
+  // Map iteration order doubles as recency order: oldest first
+  private entries = new Map<string, CacheEntry>();
+  private loadPromise?: Promise<void>;
+  private savePromise: Promise<void> = Promise.resolve();
+
+  constructor(storageUri: vscode.Uri, configManager: ConfigurationManager, now: () => number = Date.now) {
+    this.storageUri = storageUri;
+    this.configManager = configManager;
+    this.now = now;
+  }
+
+  /**
+   * Builds the cache key for a commentary request
+   * @param model The model name
+   * @param personality The personality prompt
+   * @param language The language identifier
+   * @param snippet The code snippet
+   * @returns The hex-encoded SHA-256 key
+   */
+  static createKey(model: string, personality: string, language: string, snippet: string): string {
+    return createHash('sha256')
+      .update(JSON.stringify([model, personality, language, snippet]))
+      .digest('hex');
+  }
+
+  /**
+   * Looks up a cached response, refreshing its recency
+   * @param key The cache key
+   * @returns The cached response, or undefined on a miss or when caching is disabled
+   */
+  async get(key: string): Promise<StructuredCommentaryResponse | undefined> {
+    if (!this.configManager.isCacheEnabled()) {
+      return undefined;
+    }
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (this.isExpired(entry)) {
+      this.scheduleSave();
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.response;
+  }
+
+  /**
+   * Stores a response, evicting the least recently used entries beyond the size limit
+   * @param key The cache key
+   * @param response The response to cache
+   */
+  async set(key: string, response: StructuredCommentaryResponse): Promise<void> {
+    if (!this.configManager.isCacheEnabled()) {
+      return;
+    }
+    await this.load();
+
+    this.entries.delete(key);
+    this.entries.set(key, { response, createdAt: this.now() });
+    this.evict();
+    this.scheduleSave();
+  }
+
+  /**
+   * Removes all cached responses from memory and disk
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries.clear();
+    this.scheduleSave();
+    await this.savePromise;
+  }
+
+  /**
+   * Gets the number of cached responses (for testing)
+   */
+  getSize(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Checks whether an entry is older than the configured time-to-live
+   */
+  private isExpired(entry: CacheEntry): boolean {
+    const ttlMs = this.configManager.getCacheTtlHours() * 60 * 60 * 1000;
+    return this.now() - entry.createdAt > ttlMs;
+  }
+
+  /**
+   * Drops expired entries and the least recently used entries beyond the size limit
+   */
+  private evict(): void {
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry)) {
+        this.entries.delete(key);
+      }
+    }
+
+    const maxEntries = this.configManager.getCacheMaxEntries();
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Loads the cache file once; a missing or corrupt file starts an empty cache
+   */
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const data = await vscode.workspace.fs.readFile(this.getFileUri());
+          const file = JSON.parse(new TextDecoder().decode(data)) as CacheFile;
+          if (file.version === CommentaryCache.FILE_VERSION && Array.isArray(file.entries)) {
+            this.entries = new Map(file.entries);
+            this.evict();
+          }
+        } catch (error) {
+          if (!(error instanceof vscode.FileSystemError)) {
+            console.warn('[CommentaryCache] Failed to load cache, starting empty:', error);
+          }
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Writes the cache file after any pending write has finished
+   */
+  private scheduleSave(): void {
+    this.savePromise = this.savePromise.then(async () => {
+      try {
+        const file: CacheFile = {
+          version: CommentaryCache.FILE_VERSION,
+          entries: Array.from(this.entries.entries())
+        };
+        await vscode.workspace.fs.createDirectory(this.storageUri);
+        await vscode.workspace.fs.writeFile(this.getFileUri(), new TextEncoder().encode(JSON.stringify(file)));
+      } catch (error) {
+        console.error('[CommentaryCache] Failed to save cache:', error);
+      }
+    });
+  }
+
+  /**
+   * Gets the location of the cache file
+   */
+  private getFileUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, CommentaryCache.FILE_NAME);
+  }
+}
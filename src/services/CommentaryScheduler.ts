@@ -2,34 +2,113 @@ import * as vscode from 'vscode';
 import { LLMService } from './LLMService.js';
 import { PetPanelProvider } from '../providers/PetPanelProvider.js';
 import { ConfigurationManager } from './ConfigurationManager.js';
+import { UsageTracker } from './UsageTracker.js';
+import { CircuitBreaker } from './CircuitBreaker.js';
+import { ExclusionFilter } from './ExclusionFilter.js';
 import { PERSONALITIES } from '../personalities/personalities.js';
+import { CircuitState } from '../models/CircuitState.js';
+import { CodeContext } from '../models/CodeContext.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+import { IdleState } from '../models/IdleState.js';
+import { StructuredCommentaryResponse } from '../models/StructuredCommentaryResponse.js';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import {
+  CommentaryTrigger,
+  DiagnosticsTrigger,
+  EventCommentaryGenerator,
+  SaveTrigger,
+  StuckTrigger,
+  TaskTrigger,
+  TerminalTrigger,
+  TriggerEvent,
+  TriggerRegistry,
+  TypingTrigger
+} from '../triggers/index.js';
 
 /**
- * Scheduler that monitors text changes and triggers commentary generation
- * based on character count thresholds
+ * Interface for a single piece of commentary to generate and show
+ */
+interface CommentaryJob {
+  priority: TriggerPriority;
+  expression?: ExpressionType;  // Shown instead of the expression the LLM picks
+  getCached?: (personality: string) => Promise<StructuredCommentaryResponse | undefined>;  // Shown without a request
+  generate: EventCommentaryGenerator;
+}
+
+/**
+ * Scheduler that feeds the events of the registered commentary triggers
+ * through one queue into commentary generation
  */
 export class CommentaryScheduler {
+  private static readonly MAX_QUEUED_EVENTS = 3;
+  private static readonly IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
   private configManager: ConfigurationManager;
   private llmService: LLMService;
   private petPanelProvider: PetPanelProvider;
+  private usageTracker?: UsageTracker;
+  private circuitBreaker?: CircuitBreaker;
+  private exclusionFilter: ExclusionFilter;
+  private triggerRegistry: TriggerRegistry;
+  private typingTrigger: TypingTrigger;
   
   private isRunning: boolean = false;
-  private cumulativeCharacterCount: number = 0;
   private textChangeDisposable?: vscode.Disposable;
   private activeEditorDisposable?: vscode.Disposable;
+  private activityDisposables: vscode.Disposable[] = [];
+
+  // Editor activity, so the pet can doze off while the user is away
+  private lastActivityAt: number = Date.now();
+  private idleState: IdleState = IdleState.Active;
+  private idleTimer?: NodeJS.Timeout;
   
   // Track characters typed while speech bubble is visible
   private isSpeechBubbleVisible: boolean = false;
   private charactersSinceBubbleShown: number = 0;
 
+  // Controller for the in-flight commentary request, aborted when superseded
+  private pendingRequest?: AbortController;
+  private pendingPriority: TriggerPriority = TriggerPriority.Low;
+
+  // Trigger events waiting for the in-flight request to finish, highest priority first
+  private eventQueue: TriggerEvent[] = [];
+
+  // Only warn once per session that the monthly budget paused automatic commentary
+  private hasShownBudgetWarning: boolean = false;
+
+  // Only explain once per session why Restricted Mode keeps the pet quiet
+  private hasShownRestrictedModeNotice: boolean = false;
+
   constructor(
     configManager: ConfigurationManager,
     llmService: LLMService,
-    petPanelProvider: PetPanelProvider
+    petPanelProvider: PetPanelProvider,
+    usageTracker?: UsageTracker,
+    circuitBreaker?: CircuitBreaker
   ) {
     this.configManager = configManager;
     this.llmService = llmService;
     this.petPanelProvider = petPanelProvider;
+    this.usageTracker = usageTracker;
+    this.circuitBreaker = circuitBreaker;
+    this.exclusionFilter = new ExclusionFilter(configManager);
+
+    this.triggerRegistry = new TriggerRegistry(configManager, this.exclusionFilter);
+    this.typingTrigger = new TypingTrigger(configManager, this.exclusionFilter);
+    this.triggerRegistry.register(this.typingTrigger);
+    this.triggerRegistry.register(new SaveTrigger(llmService));
+    this.triggerRegistry.register(new StuckTrigger(configManager, llmService));
+    this.triggerRegistry.register(new TaskTrigger(llmService));
+    this.triggerRegistry.register(new TerminalTrigger(llmService));
+    this.triggerRegistry.register(new DiagnosticsTrigger());
+  }
+
+  /**
+   * Add a source of automatic commentary, controlled by its entry in the triggers setting
+   * @param trigger The trigger to add
+   */
+  registerTrigger(trigger: CommentaryTrigger): void {
+    this.triggerRegistry.register(trigger);
   }
 
   /**
@@ -41,18 +120,32 @@ export class CommentaryScheduler {
     }
 
     this.isRunning = true;
-    this.cumulativeCharacterCount = 0;
+    this.triggerRegistry.start((event) => this.enqueue(event));
 
     // Monitor text document changes
     this.textChangeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
       this.handleTextChange(event);
     });
 
+    // Monitor activity that shows the user is still around
+    this.lastActivityAt = Date.now();
+    this.activityDisposables.push(
+      vscode.window.onDidChangeTextEditorSelection(() => this.markActive()),
+      vscode.window.onDidChangeWindowState((state) => {
+        if (state.focused) {
+          this.markActive();
+        }
+      })
+    );
+    this.idleTimer = setInterval(() => this.updateIdleState(), CommentaryScheduler.IDLE_CHECK_INTERVAL_MS);
+
     // Monitor active editor changes
     this.activeEditorDisposable = vscode.window.onDidChangeActiveTextEditor((editor) => {
-      // Reset character count when switching editors
       if (editor) {
-        this.cumulativeCharacterCount = 0;
+        this.markActive();
+        // Commentary for the previous file would land on the wrong one
+        this.eventQueue = [];
+        this.cancelPendingCommentary();
         // Dismiss speech bubble when switching editors
         if (this.isSpeechBubbleVisible) {
           this.dismissSpeechBubble();
@@ -70,7 +163,9 @@ export class CommentaryScheduler {
     }
 
     this.isRunning = false;
-    this.cumulativeCharacterCount = 0;
+    this.triggerRegistry.stop();
+    this.eventQueue = [];
+    this.cancelPendingCommentary();
 
     // Dispose of event listeners
     if (this.textChangeDisposable) {
@@ -82,6 +177,17 @@ export class CommentaryScheduler {
       this.activeEditorDisposable.dispose();
       this.activeEditorDisposable = undefined;
     }
+
+    for (const disposable of this.activityDisposables) {
+      disposable.dispose();
+    }
+    this.activityDisposables = [];
+
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+    this.markActive();
   }
 
   /**
@@ -90,7 +196,7 @@ export class CommentaryScheduler {
    */
   updateFrequency(characterCount: number): void {
     // Reset the cumulative count when frequency changes
-    this.cumulativeCharacterCount = 0;
+    this.typingTrigger.reset();
   }
 
   /**
@@ -103,14 +209,55 @@ export class CommentaryScheduler {
       return;
     }
 
+    if (!(await this.confirmExcludedDocument(editor.document))) {
+      return;
+    }
+
     await this.generateCommentary(editor);
   }
 
+  /**
+   * Ask the pet about exactly the selected code in the current editor
+   * @param question Optional question to put to the pet
+   */
+  async askAboutSelection(question?: string): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+      vscode.window.showWarningMessage('Select some code to ask your pet about.');
+      return;
+    }
+
+    if (!(await this.confirmExcludedDocument(editor.document))) {
+      return;
+    }
+
+    await this.generateCommentary(editor, () => this.llmService.extractSelectionContext(editor, question));
+  }
+
+  /**
+   * Ask before sending an excluded document, so manual triggers only bypass the rules on purpose
+   * @param document The document about to be sent
+   * @returns True if the document is not excluded or the user confirmed sending it
+   */
+  private async confirmExcludedDocument(document: vscode.TextDocument): Promise<boolean> {
+    const reason = this.exclusionFilter.getExclusionReason(document);
+    if (!reason) {
+      return true;
+    }
+
+    const selection = await vscode.window.showWarningMessage(
+      `Spooky Pets: ${reason}. Send it to the LLM anyway?`,
+      { modal: true },
+      'Send Anyway'
+    );
+    return selection === 'Send Anyway';
+  }
+
   /**
    * Reset the cumulative character count
    */
   resetCharacterCount(): void {
-    this.cumulativeCharacterCount = 0;
+    this.typingTrigger.reset();
   }
 
   /**
@@ -122,11 +269,29 @@ export class CommentaryScheduler {
     this.charactersSinceBubbleShown = 0;
   }
 
+  /**
+   * Abort the in-flight commentary request, if any
+   */
+  private cancelPendingCommentary(): void {
+    if (this.pendingRequest) {
+      this.pendingRequest.abort();
+      this.pendingRequest = undefined;
+      this.petPanelProvider.hideProcessingIndicator();
+    }
+  }
+
+  /**
+   * Check if a commentary request is in flight (for testing)
+   */
+  hasPendingCommentary(): boolean {
+    return this.pendingRequest !== undefined;
+  }
+
   /**
    * Get the current cumulative character count (for testing)
    */
   getCharacterCount(): number {
-    return this.cumulativeCharacterCount;
+    return this.typingTrigger.getCharacterCount();
   }
 
   /**
@@ -137,7 +302,7 @@ export class CommentaryScheduler {
   }
 
   /**
-   * Handle text document changes
+   * Handle text document changes, dismissing the speech bubble once the user types on
    */
   private handleTextChange(event: vscode.TextDocumentChangeEvent): void {
     try {
@@ -145,71 +310,224 @@ export class CommentaryScheduler {
         return;
       }
 
+      if (event.contentChanges.length > 0) {
+        this.markActive();
+      }
+
+      if (!this.isSpeechBubbleVisible) {
+        return;
+      }
+
       // Only track changes in the active editor
       const activeEditor = vscode.window.activeTextEditor;
       if (!activeEditor || event.document !== activeEditor.document) {
         return;
       }
 
-      // Calculate the number of characters added
-      let charactersAdded = 0;
-      for (const change of event.contentChanges) {
-        // Count characters added (positive) but ignore deletions
-        if (change.text.length > 0) {
-          charactersAdded += change.text.length;
-        }
+      this.charactersSinceBubbleShown += TypingTrigger.countAddedCharacters(event);
+
+      // Auto-dismiss after 5% of the threshold
+      const threshold = this.configManager.getCommentaryFrequency();
+      const dismissThreshold = Math.max(10, Math.floor(threshold * 0.05)); // At least 10 characters
+
+      if (this.charactersSinceBubbleShown >= dismissThreshold) {
+        this.dismissSpeechBubble();
       }
+    } catch (error) {
+      console.error('[CommentaryScheduler] Error in handleTextChange:', error);
+      // Extension should remain active despite errors
+    }
+  }
 
-      // Update cumulative count
-      this.cumulativeCharacterCount += charactersAdded;
-      
-      // If speech bubble is visible, track characters for auto-dismiss
-      if (this.isSpeechBubbleVisible) {
-        this.charactersSinceBubbleShown += charactersAdded;
-        
-        // Auto-dismiss after 5% of the threshold
-        const threshold = this.configManager.getCommentaryFrequency();
-        const dismissThreshold = Math.max(10, Math.floor(threshold * 0.05)); // At least 10 characters
-        
-        if (this.charactersSinceBubbleShown >= dismissThreshold) {
-          this.dismissSpeechBubble();
-        }
+  /**
+   * Record editor activity, waking the pet if it dozed off
+   */
+  private markActive(): void {
+    this.lastActivityAt = Date.now();
+    if (this.idleState !== IdleState.Active) {
+      this.idleState = IdleState.Active;
+      this.petPanelProvider.setIdleState(IdleState.Active);
+    }
+  }
+
+  /**
+   * Let the pet get drowsy halfway to the sleep timeout, then fall asleep
+   */
+  private updateIdleState(): void {
+    const sleepAfterMs = this.configManager.getSleepAfterMinutes() * 60 * 1000;
+    const idleMs = Date.now() - this.lastActivityAt;
+
+    let state = IdleState.Active;
+    if (sleepAfterMs > 0 && idleMs >= sleepAfterMs) {
+      state = IdleState.Asleep;
+    } else if (sleepAfterMs > 0 && idleMs >= sleepAfterMs / 2) {
+      state = IdleState.Drowsy;
+    }
+
+    if (state !== this.idleState) {
+      console.log(`[CommentaryScheduler] User idle for ${Math.round(idleMs / 1000)}s, pet is now ${state}`);
+      this.idleState = state;
+      this.petPanelProvider.setIdleState(state);
+    }
+  }
+
+  /**
+   * Queue a trigger event. It supersedes an in-flight request of the same or lower
+   * priority, and otherwise waits for it to finish
+   */
+  private enqueue(event: TriggerEvent): void {
+    if (!this.pendingRequest || event.priority >= this.pendingPriority) {
+      this.dispatch(event);
+      return;
+    }
+
+    // Keep the most urgent events, oldest first within a priority
+    const index = this.eventQueue.findIndex(queued => queued.priority < event.priority);
+    this.eventQueue.splice(index === -1 ? this.eventQueue.length : index, 0, event);
+    this.eventQueue = this.eventQueue.slice(0, CommentaryScheduler.MAX_QUEUED_EVENTS);
+    console.log(`[CommentaryScheduler] Queued "${event.triggerId}" event behind the in-flight request`);
+  }
+
+  /**
+   * Generate commentary for a trigger event, unless the file is excluded or automatic commentary is paused
+   */
+  private dispatch(event: TriggerEvent): void {
+    try {
+      if (!this.isRunning) {
+        return;
       }
 
-      // Check if threshold is reached
-      const threshold = this.configManager.getCommentaryFrequency();
-      
-      // If frequency is 0, automatic commentary is disabled
-      if (threshold === 0) {
+      // The user may have moved on while the event waited
+      const editor = event.editor;
+      if (editor && editor !== vscode.window.activeTextEditor) {
         return;
       }
 
-      if (this.cumulativeCharacterCount >= threshold) {
-        // Reset count immediately to prevent multiple triggers
-        this.resetCharacterCount();
-        
-        // Trigger commentary generation
-        this.generateCommentary(activeEditor).catch((error) => {
-          console.error('[CommentaryScheduler] Failed to generate commentary:', error);
-        });
+      // Never comment automatically on excluded files
+      if (editor && this.exclusionFilter.isExcluded(editor.document)) {
+        return;
+      }
+
+      // Automatic commentary pauses once the monthly budget is spent; manual triggers still work
+      if (this.usageTracker?.isBudgetExceeded()) {
+        this.notifyBudgetExceeded();
+        return;
       }
+
+      // Let a failing endpoint rest; the breaker lets a probe through once it is half-open
+      if (this.circuitBreaker?.getState() === CircuitState.Open) {
+        console.log('[CommentaryScheduler] Endpoint circuit open, skipping automatic commentary');
+        return;
+      }
+
+      const onError = (error: unknown) => {
+        console.error(`[CommentaryScheduler] Failed to generate commentary for "${event.triggerId}":`, error);
+      };
+
+      // Events about something other than code bring their own prompt
+      if (event.generate) {
+        this.runCommentary({ priority: event.priority, expression: event.expression, generate: event.generate })
+          .catch(onError);
+        return;
+      }
+      if (!editor) {
+        return;
+      }
+
+      const extractContext = event.extractContext ?? (() => this.llmService.extractCodeContext(editor));
+      const extractWithOccasion = async (): Promise<CodeContext> => ({
+        ...(await extractContext()),
+        occasion: event.occasion
+      });
+
+      // Trigger commentary generation
+      this.generateCommentary(editor, extractWithOccasion, event.priority, event.expression).catch(onError);
     } catch (error) {
-      console.error('[CommentaryScheduler] Error in handleTextChange:', error);
-      // Extension should remain active despite errors
+      console.error('[CommentaryScheduler] Error dispatching trigger event:', error);
     }
   }
 
+  /**
+   * Tell the user once that code stays on this machine until the workspace is trusted
+   */
+  private notifyRestrictedMode(): void {
+    console.log('[CommentaryScheduler] Restricted Mode, not sending code to remote LLMs');
+    if (this.hasShownRestrictedModeNotice) {
+      return;
+    }
+
+    this.hasShownRestrictedModeNotice = true;
+    vscode.window.showInformationMessage(
+      'Spooky Pets: This workspace is in Restricted Mode, so your pet will not send code to remote LLMs.',
+      'Manage Workspace Trust'
+    ).then((selection) => {
+      if (selection === 'Manage Workspace Trust') {
+        vscode.commands.executeCommand('workbench.trust.manage');
+      }
+    });
+  }
+
+  /**
+   * Tell the user once that automatic commentary is paused by the monthly budget
+   */
+  private notifyBudgetExceeded(): void {
+    console.log('[CommentaryScheduler] Monthly budget reached, skipping automatic commentary');
+    if (this.hasShownBudgetWarning) {
+      return;
+    }
+
+    this.hasShownBudgetWarning = true;
+    vscode.window.showWarningMessage(
+      'Spooky Pets: Monthly budget reached. Automatic commentary is paused until next month.',
+      'Show Usage'
+    ).then((selection) => {
+      if (selection === 'Show Usage') {
+        vscode.commands.executeCommand('spookyPets.showUsage');
+      }
+    });
+  }
+
   /**
    * Generate commentary for the given editor
+   * @param extractContext Chooses the code to comment on (defaults to the configured context mode)
+   * @param priority How urgent the request is; only requests of the same or higher priority supersede it
+   * @param expression Expression to show instead of the one the LLM picks
    */
-  private async generateCommentary(editor: vscode.TextEditor): Promise<void> {
-    try {
-      // Show processing indicator
-      this.petPanelProvider.showProcessingIndicator();
+  private async generateCommentary(
+    editor: vscode.TextEditor,
+    extractContext: () => Promise<CodeContext> = () => this.llmService.extractCodeContext(editor),
+    priority: TriggerPriority = TriggerPriority.Manual,
+    expression?: ExpressionType
+  ): Promise<void> {
+    // Extract the code context once, for both the cache lookup and the request
+    let codeContext: Promise<CodeContext> | undefined;
+    const getCodeContext = () => {
+      codeContext = codeContext ?? extractContext();
+      return codeContext;
+    };
+
+    await this.runCommentary({
+      priority,
+      expression,
+      getCached: async (personality) => this.llmService.getCachedCommentary(await getCodeContext(), personality),
+      generate: async (personality, options) => this.llmService.generateCommentary(await getCodeContext(), personality, options)
+    });
+  }
+
+  /**
+   * Generate a piece of commentary in the current pet's personality and show it in the speech bubble
+   * @param job What to comment on and how urgently
+   */
+  private async runCommentary(job: CommentaryJob): Promise<void> {
+    const { expression } = job;
 
-      // Extract code context
-      const codeContext = this.llmService.extractCodeContext(editor);
+    // A newer request supersedes any request still in flight
+    this.cancelPendingCommentary();
+    const controller = new AbortController();
+    this.pendingRequest = controller;
+    this.pendingPriority = job.priority;
 
+    try {
       // Get the current pet and its personality
       const currentPet = this.petPanelProvider.getCurrentPet();
       
@@ -217,19 +535,66 @@ export class CommentaryScheduler {
       const customPrompt = this.configManager.getCustomPrompt(currentPet);
       const personality = customPrompt || PERSONALITIES[currentPet].systemPrompt;
 
-      // Generate commentary
-      const response = await this.llmService.generateCommentary(codeContext, personality);
+      // Unchanged code gets its previous commentary straight away, without the processing indicator
+      const cached = await job.getCached?.(personality);
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (cached) {
+        this.petPanelProvider.showSpeechBubbleWithExpression(cached.commentary, expression ?? cached.expression);
+        this.isSpeechBubbleVisible = true;
+        this.charactersSinceBubbleShown = 0;
+        return;
+      }
+
+      // Show processing indicator
+      this.petPanelProvider.showProcessingIndicator();
+
+      // Generate commentary, typing streamed text into the speech bubble as it arrives
+      let isStreaming = false;
+      const response = await job.generate(personality, {
+        signal: controller.signal,
+        petType: currentPet,
+        onPartial: (partial) => {
+          if (!isStreaming) {
+            isStreaming = true;
+            this.petPanelProvider.hideProcessingIndicator();
+            this.petPanelProvider.hideSpeechBubble();
+            this.isSpeechBubbleVisible = true;
+            this.charactersSinceBubbleShown = 0;
+          }
+          this.petPanelProvider.appendSpeechBubble(
+            partial.commentaryDelta,
+            partial.expression && (expression ?? partial.expression)
+          );
+        }
+      });
+
+      // The request may have been superseded while its response was being parsed
+      if (controller.signal.aborted) {
+        return;
+      }
 
       // Hide processing indicator
       this.petPanelProvider.hideProcessingIndicator();
 
-      // Display the commentary in a speech bubble with expression
-      this.petPanelProvider.showSpeechBubbleWithExpression(response.commentary, response.expression);
+      // Display the final validated commentary, replacing any streamed text
+      this.petPanelProvider.showSpeechBubbleWithExpression(
+        response.commentary,
+        expression ?? response.expression,
+        response.isFallback ? response.backend : undefined
+      );
       
       // Track that speech bubble is now visible
       this.isSpeechBubbleVisible = true;
       this.charactersSinceBubbleShown = 0;
     } catch (error) {
+      // Superseded requests are dropped silently; the canceller already hid the indicator
+      if (error instanceof vscode.CancellationError) {
+        console.log('[CommentaryScheduler] Commentary request cancelled');
+        return;
+      }
+
       // Hide processing indicator on error
       this.petPanelProvider.hideProcessingIndicator();
 
@@ -241,7 +606,9 @@ export class CommentaryScheduler {
 
       // Handle specific error cases
       if (error instanceof Error) {
-        if (error.message.includes('API key')) {
+        if (error.message.includes('Restricted Mode')) {
+          this.notifyRestrictedMode();
+        } else if (error.message.includes('API key')) {
           vscode.window.showErrorMessage(
             'Spooky Pets: API key not configured or invalid. Please set your API key.',
             'Set API Key'
@@ -250,6 +617,9 @@ export class CommentaryScheduler {
               vscode.commands.executeCommand('spookyPets.setApiKey');
             }
           });
+        } else if (!this.llmService.isEndpointHealthy()) {
+          // The sleeping pet and status bar already show that the endpoint is down
+          console.warn('[CommentaryScheduler] Endpoint unhealthy, suppressing error notification');
         } else if (error.message.includes('Rate limit')) {
           vscode.window.showWarningMessage('Spooky Pets: Rate limit exceeded. Please try again later.');
         } else {
@@ -259,6 +629,16 @@ export class CommentaryScheduler {
 
       // Don't reset character count on error - allow retry
       throw error;
+    } finally {
+      if (this.pendingRequest === controller) {
+        this.pendingRequest = undefined;
+
+        // Serve the events that waited for this request
+        const next = this.eventQueue.shift();
+        if (next) {
+          this.dispatch(next);
+        }
+      }
     }
   }
 
@@ -1,5 +1,13 @@
 import * as vscode from 'vscode';
 import { PetType } from '../models/PetType.js';
+import { ProviderType } from '../models/ProviderType.js';
+import { ModelPrice } from '../models/ModelPrice.js';
+import { AuthScheme } from '../models/AuthScheme.js';
+import { EndpointProfile } from '../models/EndpointProfile.js';
+import { DiagnosticLevel } from '../models/DiagnosticLevel.js';
+import { ContextMode } from '../models/ContextMode.js';
+import { RedactionRule } from '../models/RedactionRule.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
 
 /**
  * Manages extension configuration including secure API key storage and user settings
@@ -31,28 +39,48 @@ export class ConfigurationManager {
   }
 
   /**
-   * Retrieves the API key from secure storage
+   * Gets the secret storage key for the API key of an endpoint profile
+   * @param profile The profile, or undefined for the plain provider settings
+   * @returns The secret name (each profile has its own key)
+   */
+  private getApiKeySecret(profile: EndpointProfile | undefined = this.getActiveProfile()): string {
+    return profile
+      ? `${ConfigurationManager.API_KEY_SECRET}.${profile.name}`
+      : ConfigurationManager.API_KEY_SECRET;
+  }
+
+  /**
+   * Retrieves the API key for the active endpoint profile from secure storage
    * @returns The API key or undefined if not set
    */
   async getApiKey(): Promise<string | undefined> {
-    return await this.context.secrets.get(ConfigurationManager.API_KEY_SECRET);
+    return await this.context.secrets.get(this.getApiKeySecret());
   }
 
   /**
-   * Stores the API key in secure storage
+   * Retrieves the API key for a specific endpoint profile from secure storage
+   * @param profile The profile, or undefined for the plain provider settings
+   * @returns The API key or undefined if not set
+   */
+  async getApiKeyForProfile(profile: EndpointProfile | undefined): Promise<string | undefined> {
+    return await this.context.secrets.get(this.getApiKeySecret(profile));
+  }
+
+  /**
+   * Stores the API key for the active endpoint profile in secure storage
    * @param apiKey The API key to store
    */
   async setApiKey(apiKey: string): Promise<void> {
-    await this.context.secrets.store(ConfigurationManager.API_KEY_SECRET, apiKey);
+    await this.context.secrets.store(this.getApiKeySecret(), apiKey);
     // Fire configuration change event since API key affects functionality
     this.configChangeEmitter.fire();
   }
 
   /**
-   * Clears the API key from secure storage
+   * Clears the API key for the active endpoint profile from secure storage
    */
   async clearApiKey(): Promise<void> {
-    await this.context.secrets.delete(ConfigurationManager.API_KEY_SECRET);
+    await this.context.secrets.delete(this.getApiKeySecret());
     this.configChangeEmitter.fire();
   }
 
@@ -65,6 +93,33 @@ export class ConfigurationManager {
     return config.get<number>('commentaryFrequency', 5);
   }
 
+  /**
+   * Gets how long the cursor must stay in one function, with lots of edits and undos, before the pet offers a hint
+   * @returns The time in minutes (0 means disabled)
+   */
+  getStuckAfterMinutes(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('stuckAfterMinutes', 10);
+  }
+
+  /**
+   * Gets how long the user must be inactive before the pet falls asleep
+   * @returns The time in minutes (0 means the pet stays awake)
+   */
+  getSleepAfterMinutes(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('sleepAfterMinutes', 5);
+  }
+
+  /**
+   * Gets the user's settings for the automatic commentary triggers
+   * @returns Settings keyed by trigger id (triggers without an entry use their defaults)
+   */
+  getTriggerSettings(): Record<string, Partial<TriggerSettings>> {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<Record<string, Partial<TriggerSettings>>>('triggers', {});
+  }
+
   /**
    * Sets the commentary frequency setting
    * @param minutes The frequency in minutes (0 to disable)
@@ -133,6 +188,75 @@ export class ConfigurationManager {
     await config.update('customPrompts', customPrompts, vscode.ConfigurationTarget.Global);
   }
 
+  /**
+   * Gets the LLM provider used to format requests and parse responses
+   * @returns The provider type
+   */
+  getProvider(): ProviderType {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const providerString = config.get<string>('provider', ProviderType.OpenAI);
+
+    if (Object.values(ProviderType).includes(providerString as ProviderType)) {
+      return providerString as ProviderType;
+    }
+
+    return ProviderType.OpenAI; // Default fallback
+  }
+
+  /**
+   * Gets the configured endpoint profiles, skipping entries without a name or URL
+   * @returns The endpoint profiles
+   */
+  getEndpointProfiles(): EndpointProfile[] {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const profiles = config.get<EndpointProfile[]>('endpointProfiles', []);
+
+    return profiles
+      .filter(profile => profile && profile.name && profile.url)
+      .map(profile => ({
+        ...profile,
+        // Validate enum values, falling back to the defaults
+        provider: Object.values(ProviderType).includes(profile.provider as ProviderType) ? profile.provider : undefined,
+        authScheme: Object.values(AuthScheme).includes(profile.authScheme as AuthScheme) ? profile.authScheme : undefined
+      }));
+  }
+
+  /**
+   * Gets the active endpoint profile
+   * @returns The profile, or undefined when the plain provider settings are used
+   */
+  getActiveProfile(): EndpointProfile | undefined {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const name = config.get<string>('activeProfile', '');
+    if (!name) {
+      return undefined;
+    }
+    return this.getEndpointProfiles().find(profile => profile.name === name);
+  }
+
+  /**
+   * Gets the profiles to fall back to, in order, when the active endpoint fails
+   * @returns The failover profiles (unknown names are skipped)
+   */
+  getFailoverProfiles(): EndpointProfile[] {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const names = config.get<string[]>('failoverProfiles', []);
+    const profiles = this.getEndpointProfiles();
+
+    return names
+      .map(name => profiles.find(profile => profile.name === name))
+      .filter((profile): profile is EndpointProfile => profile !== undefined);
+  }
+
+  /**
+   * Sets the active endpoint profile
+   * @param name The profile name, or undefined to use the plain provider settings
+   */
+  async setActiveProfile(name: string | undefined): Promise<void> {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    await config.update('activeProfile', name ?? '', vscode.ConfigurationTarget.Global);
+  }
+
   /**
    * Gets the API endpoint URL
    * @returns The API endpoint URL
@@ -151,6 +275,32 @@ export class ConfigurationManager {
     return config.get<string>('model', 'gpt-3.5-turbo');
   }
 
+  /**
+   * Sets the model name, on the active endpoint profile when there is one, since a profile's model
+   * takes precedence over spookyPets.model
+   * @param model The model name
+   */
+  async setModel(model: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const activeProfile = this.getActiveProfile();
+    if (!activeProfile) {
+      await config.update('model', model, vscode.ConfigurationTarget.Global);
+      return;
+    }
+
+    // Edit the profiles where they are defined, or the workspace's copy would still win
+    const inspected = config.inspect<EndpointProfile[]>('endpointProfiles');
+    const target = inspected?.workspaceValue !== undefined
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+    const profiles = (target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.globalValue) ?? [];
+    await config.update(
+      'endpointProfiles',
+      profiles.map(profile => profile.name === activeProfile.name ? { ...profile, model } : profile),
+      target
+    );
+  }
+
   /**
    * Gets the maximum tokens for responses
    * @returns The maximum tokens
@@ -160,6 +310,21 @@ export class ConfigurationManager {
     return config.get<number>('maxTokens', 75);
   }
 
+  /**
+   * Gets how the code sent to the pet is chosen
+   * @returns The context mode
+   */
+  getContextMode(): ContextMode {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const modeString = config.get<string>('contextMode', ContextMode.Symbol);
+
+    if (Object.values(ContextMode).includes(modeString as ContextMode)) {
+      return modeString as ContextMode;
+    }
+
+    return ContextMode.Symbol; // Default fallback
+  }
+
   /**
    * Gets the number of context lines to include
    * @returns The number of context lines
@@ -169,6 +334,185 @@ export class ConfigurationManager {
     return config.get<number>('contextLines', 15);
   }
 
+  /**
+   * Gets the approximate token budget for a commentary prompt
+   * @returns The maximum prompt tokens (0 for no limit)
+   */
+  getMaxPromptTokens(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('maxPromptTokens', 1000);
+  }
+
+  /**
+   * Gets the severities of compiler and linter problems to include in the context
+   * @returns The diagnostic levels (unknown values are skipped)
+   */
+  getDiagnosticLevels(): DiagnosticLevel[] {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const levels = config.get<string[]>('diagnosticSeverities', [DiagnosticLevel.Error, DiagnosticLevel.Warning]);
+    return levels.filter((level): level is DiagnosticLevel =>
+      Object.values(DiagnosticLevel).includes(level as DiagnosticLevel)
+    );
+  }
+
+  /**
+   * Gets the glob patterns of files the pet never comments on automatically
+   * @returns The exclude patterns
+   */
+  getExcludePatterns(): string[] {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<string[]>('exclude', []);
+  }
+
+  /**
+   * Gets the language allow/deny list
+   * @returns Language identifiers to allow, or to deny when prefixed with "!" (empty allows all)
+   */
+  getLanguageFilter(): string[] {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<string[]>('languages', []);
+  }
+
+  /**
+   * Gets whether secrets and personal data are masked before code is sent
+   * @returns True if redaction is enabled
+   */
+  isRedactionEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<boolean>('redactionEnabled', true);
+  }
+
+  /**
+   * Gets the user's redaction rules, applied alongside the built-in ones
+   * @returns The rules (entries without a name or pattern are skipped)
+   */
+  getRedactionRules(): RedactionRule[] {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const rules = config.get<RedactionRule[]>('redactionRules', []);
+    return rules.filter(rule => rule && typeof rule.name === 'string' && typeof rule.pattern === 'string');
+  }
+
+  /**
+   * Gets the per-request timeout
+   * @returns The timeout in seconds (0 means no timeout)
+   */
+  getRequestTimeout(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('requestTimeout', 30);
+  }
+
+  /**
+   * Gets whether rule-based commentary is used when the LLM is unavailable
+   * @returns True if the offline fallback is enabled
+   */
+  isOfflineFallbackEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<boolean>('offlineFallback', true);
+  }
+
+  /**
+   * Gets whether commentary responses are cached
+   * @returns True if the cache is enabled
+   */
+  isCacheEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<boolean>('cacheEnabled', true);
+  }
+
+  /**
+   * Gets the maximum number of cached commentary responses
+   * @returns The maximum number of entries
+   */
+  getCacheMaxEntries(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('cacheMaxEntries', 200);
+  }
+
+  /**
+   * Gets how long cached commentary stays valid
+   * @returns The time-to-live in hours
+   */
+  getCacheTtlHours(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('cacheTtlHours', 24);
+  }
+
+  /**
+   * Gets the maximum number of LLM requests per minute
+   * @returns The request limit (0 means unlimited)
+   */
+  getRequestsPerMinute(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('requestsPerMinute', 20);
+  }
+
+  /**
+   * Gets the maximum number of LLM tokens per minute
+   * @returns The token limit (0 means unlimited)
+   */
+  getTokensPerMinute(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('tokensPerMinute', 40000);
+  }
+
+  /**
+   * Gets the number of consecutive failures that pause requests to the endpoint
+   * @returns The failure threshold (0 disables the circuit breaker)
+   */
+  getCircuitBreakerThreshold(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('circuitBreakerThreshold', 3);
+  }
+
+  /**
+   * Gets how long requests stay paused before the endpoint is probed again
+   * @returns The cooldown in seconds
+   */
+  getCircuitBreakerCooldown(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('circuitBreakerCooldown', 60);
+  }
+
+  /**
+   * Gets the price table used for cost accounting
+   * @returns Prices in USD per million tokens, keyed by model name
+   */
+  getModelPrices(): Record<string, ModelPrice> {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<Record<string, ModelPrice>>('modelPrices', {});
+  }
+
+  /**
+   * Gets the monthly spending cap for automatic commentary
+   * @returns The budget in USD (0 means no cap)
+   */
+  getMonthlyBudget(): number {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<number>('monthlyBudget', 0);
+  }
+
+  /**
+   * Gets whether responses should be streamed into the speech bubble
+   * @returns True if streaming is enabled
+   */
+  isStreamingEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    return config.get<boolean>('streaming', true);
+  }
+
+  /**
+   * Checks whether a setting has been explicitly set at any scope
+   * @param key The setting key within the spookyPets section
+   * @returns True if a user, workspace or folder value is present
+   */
+  hasExplicitValue(key: string): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+    const inspection = config.inspect(key);
+    return inspection?.globalValue !== undefined ||
+           inspection?.workspaceValue !== undefined ||
+           inspection?.workspaceFolderValue !== undefined;
+  }
+
   /**
    * Disposes of resources
    */
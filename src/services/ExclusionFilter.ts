@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigurationManager } from './ConfigurationManager.js';
+
+/**
+ * Decides which files the pet must not comment on, from the exclude globs
+ * and the language allow/deny list
+ */
+export class ExclusionFilter {
+  private configManager: ConfigurationManager;
+
+  constructor(configManager: ConfigurationManager) {
+    this.configManager = configManager;
+  }
+
+  /**
+   * Checks a document against the exclusion rules
+   * @param document The document the pet would comment on
+   * @returns Why the document is excluded, or undefined if the pet may comment on it
+   */
+  getExclusionReason(document: vscode.TextDocument): string | undefined {
+    const fileName = path.basename(document.fileName);
+
+    const pattern = this.configManager.getExcludePatterns()
+      .find(glob => vscode.languages.match({ pattern: glob }, document) > 0);
+    if (pattern) {
+      return `${fileName} matches the exclude pattern "${pattern}"`;
+    }
+
+    // Entries starting with "!" are denied; any other entry turns the list into an allow list
+    const languages = this.configManager.getLanguageFilter();
+    const denied = languages.filter(language => language.startsWith('!')).map(language => language.substring(1));
+    const allowed = languages.filter(language => !language.startsWith('!'));
+    if (denied.includes(document.languageId) || (allowed.length > 0 && !allowed.includes(document.languageId))) {
+      return `${document.languageId} files are excluded by spookyPets.languages`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks whether a document is excluded
+   * @param document The document the pet would comment on
+   * @returns True if the pet must not comment on it
+   */
+  isExcluded(document: vscode.TextDocument): boolean {
+    return this.getExclusionReason(document) !== undefined;
+  }
+}
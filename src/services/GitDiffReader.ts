@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+
+/**
+ * Subset of the built-in git extension's exports (extensions/git/src/api/git.d.ts)
+ */
+interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
+
+/**
+ * Subset of the built-in git extension's API
+ */
+interface GitAPI {
+  getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+/**
+ * Subset of a repository in the built-in git extension's API
+ */
+interface GitRepository {
+  diffWithHEAD(path: string): Promise<string>;
+}
+
+/**
+ * Interface for a single hunk of a unified diff
+ */
+export interface DiffHunk {
+  newStart: number;  // 1-based first line in the working copy
+  newLines: number;  // Number of working copy lines the hunk covers
+  text: string;  // The hunk, including its @@ header
+}
+
+/**
+ * Reads the uncommitted changes of a file through the built-in git extension
+ */
+export class GitDiffReader {
+  private static readonly GIT_EXTENSION_ID = 'vscode.git';
+
+  private api?: GitAPI;
+
+  /**
+   * Gets the hunks that differ between HEAD and the working copy of a file
+   * @param uri The file to diff
+   * @returns The hunks, or undefined if git is unavailable or the file is not in a repository
+   */
+  async getUncommittedHunks(uri: vscode.Uri): Promise<DiffHunk[] | undefined> {
+    const api = await this.getApi();
+    const repository = api?.getRepository(uri);
+    if (!repository) {
+      return undefined;
+    }
+
+    const diff = await repository.diffWithHEAD(uri.fsPath);
+    return GitDiffReader.parseHunks(diff);
+  }
+
+  /**
+   * Splits a unified diff into its hunks, dropping the file headers
+   * @param diff The unified diff
+   * @returns The hunks in file order
+   */
+  static parseHunks(diff: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let current: { newStart: number; newLines: number; lines: string[] } | undefined;
+
+    for (const line of diff.split('\n')) {
+      const header = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (header) {
+        if (current) {
+          hunks.push({ newStart: current.newStart, newLines: current.newLines, text: current.lines.join('\n') });
+        }
+        current = {
+          newStart: Number(header[1]),
+          newLines: header[2] === undefined ? 1 : Number(header[2]),
+          lines: [line]
+        };
+      } else if (current && /^[ +\-\\]/.test(line)) {
+        current.lines.push(line);
+      }
+    }
+
+    if (current) {
+      hunks.push({ newStart: current.newStart, newLines: current.newLines, text: current.lines.join('\n') });
+    }
+    return hunks;
+  }
+
+  /**
+   * Gets the git API, activating the git extension if needed
+   * @returns The API, or undefined if the git extension is missing or disabled
+   */
+  private async getApi(): Promise<GitAPI | undefined> {
+    if (this.api) {
+      return this.api;
+    }
+
+    const extension = vscode.extensions.getExtension<GitExtension>(GitDiffReader.GIT_EXTENSION_ID);
+    if (!extension) {
+      return undefined;
+    }
+
+    try {
+      const exports = extension.isActive ? extension.exports : await extension.activate();
+      this.api = exports.getAPI(1);
+      return this.api;
+    } catch (error) {
+      console.warn('[GitDiffReader] Git extension unavailable:', error);
+      return undefined;
+    }
+  }
+}
@@ -1,38 +1,86 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { CodeContext } from '../models/CodeContext.js';
+import { TaskResult } from '../models/TaskResult.js';
+import { TerminalContext } from '../models/TerminalContext.js';
+import { PetType } from '../models/PetType.js';
 import { ConfigurationManager } from './ConfigurationManager.js';
-import { StructuredCommentaryResponse, parseStructuredResponse } from '../models/index.js';
+import { CommentaryCache } from './CommentaryCache.js';
+import { UsageTracker } from './UsageTracker.js';
+import { RateLimiter } from './RateLimiter.js';
+import { CircuitBreaker } from './CircuitBreaker.js';
+import { DiffHunk, GitDiffReader } from './GitDiffReader.js';
+import { LineRedactionResult, Redactor } from './Redactor.js';
+import { AuthScheme, CircuitState, CodeDiagnostic, ContextMode, DiagnosticLevel, EnclosingSymbol, EndpointProfile, ExpressionType, IncrementalCommentaryParser, PartialCommentary, StructuredCommentaryResponse, parseStructuredResponse } from '../models/index.js';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderHttpRequest, OfflineCommentaryEngine, TokenUsage, createProvider, estimateTokens, fitSnippet, readStreamEvents } from '../llm/index.js';
 
 /**
- * Interface for OpenAI-compatible API request
+ * Options for a single commentary generation
  */
-export interface LLMRequest {
+export interface CommentaryOptions {
+  onPartial?: (partial: PartialCommentary) => void;  // Receives commentary as it streams in
+  signal?: AbortSignal;  // Aborts the request once its commentary is no longer wanted
+  petType?: PetType;  // Voice for offline fallback commentary (defaults to the selected pet)
+}
+
+/**
+ * Interface for an endpoint resolved from a profile or the plain provider settings
+ */
+interface Backend {
+  name: string;  // Profile name, or 'Default' for the plain provider settings
+  profile?: EndpointProfile;
+  provider: LLMProvider;
+  endpoint: string;
   model: string;
-  messages: Array<{ role: string; content: string }>;
-  max_tokens: number;
-  temperature: number;
+  apiKey?: string;
 }
 
 /**
- * Interface for OpenAI-compatible API response
+ * Interface for a symbol found around the cursor by the language's symbol provider
  */
-export interface LLMResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
+interface SymbolMatch {
+  name: string;
+  kind: string;
+  range: vscode.Range;
 }
 
 /**
- * Interface for queued retry request
+ * Symbol kinds that can frame the commentary context, with the words used for them in prompts
+ */
+const ENCLOSING_SYMBOL_KINDS = new Map<vscode.SymbolKind, string>([
+  [vscode.SymbolKind.Function, 'function'],
+  [vscode.SymbolKind.Method, 'method'],
+  [vscode.SymbolKind.Constructor, 'constructor'],
+  [vscode.SymbolKind.Class, 'class'],
+  [vscode.SymbolKind.Struct, 'struct']
+]);
+
+/**
+ * VS Code diagnostic severities with the levels used in settings and prompts
+ */
+const DIAGNOSTIC_LEVELS = new Map<vscode.DiagnosticSeverity, DiagnosticLevel>([
+  [vscode.DiagnosticSeverity.Error, DiagnosticLevel.Error],
+  [vscode.DiagnosticSeverity.Warning, DiagnosticLevel.Warning],
+  [vscode.DiagnosticSeverity.Information, DiagnosticLevel.Information],
+  [vscode.DiagnosticSeverity.Hint, DiagnosticLevel.Hint]
+]);
+
+/**
+ * Response format every commentary prompt asks for
  */
-interface RetryQueueItem {
-  codeContext: CodeContext;
-  personality: string;
-  resolve: (value: StructuredCommentaryResponse) => void;
-  reject: (reason: Error) => void;
-  retryCount: number;
+const RESPONSE_FORMAT = `IMPORTANT: You must respond with valid JSON in this exact format:
+{
+  "expression": "happy" | "neutral" | "concerned",
+  "commentary": "Your 1-2 sentence comment here"
+}`;
+
+/**
+ * Interface for the outcome of sending a request down the failover chain
+ */
+interface FailoverResult {
+  result: CompletionResult;
+  backend: Backend;  // The backend that answered
+  isFallback: boolean;  // True if an earlier backend in the chain failed
 }
 
 /**
@@ -40,44 +88,333 @@ interface RetryQueueItem {
  */
 export class LLMService {
   private configManager: ConfigurationManager;
-  private retryQueue: RetryQueueItem[] = [];
-  private isProcessingQueue: boolean = false;
+  private cache?: CommentaryCache;
+  private usageTracker?: UsageTracker;
+  private rateLimiter?: RateLimiter;
+  private circuitBreaker?: CircuitBreaker;
+  private redactor?: Redactor;
+  private offlineEngine = new OfflineCommentaryEngine();
+  private gitDiffReader = new GitDiffReader();
   private readonly MAX_RETRIES = 3;
   private readonly INITIAL_BACKOFF_MS = 1000;
+  private readonly MAX_SYMBOL_LINES = 150;
+  private readonly MAX_DIFF_LINES = 150;
+  private readonly SYMBOL_TIMEOUT_MS = 1000;
+  private readonly MAX_DIAGNOSTICS = 10;
+  private readonly REDACTION_MARGIN_LINES = 100;  // Room for a whole private key block across the edge
 
-  constructor(configManager: ConfigurationManager) {
+  constructor(
+    configManager: ConfigurationManager,
+    cache?: CommentaryCache,
+    usageTracker?: UsageTracker,
+    rateLimiter?: RateLimiter,
+    circuitBreaker?: CircuitBreaker,
+    redactor?: Redactor
+  ) {
     this.configManager = configManager;
+    this.cache = cache;
+    this.usageTracker = usageTracker;
+    this.redactor = redactor;
+    this.rateLimiter = rateLimiter;
+    this.circuitBreaker = circuitBreaker;
+  }
+
+  /**
+   * Gets the provider selected by an endpoint profile or the configuration
+   * @param profile The endpoint profile (defaults to the active one)
+   * @returns The LLM provider
+   */
+  getProvider(profile: EndpointProfile | undefined = this.configManager.getActiveProfile()): LLMProvider {
+    return createProvider(profile?.provider ?? this.configManager.getProvider());
+  }
+
+  /**
+   * Checks whether requests need an API key, taking the profile's auth scheme into account
+   * @param profile The endpoint profile (defaults to the active one)
+   * @returns True if an API key must be configured
+   */
+  isApiKeyRequired(profile: EndpointProfile | undefined = this.configManager.getActiveProfile()): boolean {
+    const authScheme = profile?.authScheme ?? AuthScheme.Provider;
+    if (authScheme === AuthScheme.Provider) {
+      return this.getProvider(profile).requiresApiKey;
+    }
+    return authScheme !== AuthScheme.None;
+  }
+
+  /**
+   * Resolves the endpoint to use: the profile's URL, otherwise the configured
+   * endpoint, falling back to the provider's default when none is set explicitly
+   * @param provider The profile's provider
+   * @param profile The endpoint profile (defaults to the active one)
+   * @returns The endpoint URL
+   */
+  private resolveEndpoint(
+    provider: LLMProvider,
+    profile: EndpointProfile | undefined = this.configManager.getActiveProfile()
+  ): string {
+    if (profile) {
+      return this.buildProfileUrl(profile, this.resolveModel(provider, profile));
+    }
+
+    return this.configManager.hasExplicitValue('apiEndpoint')
+      ? this.configManager.getApiEndpoint()
+      : provider.defaultEndpoint;
+  }
+
+  /**
+   * Resolves the model to use: the profile's model, otherwise the configured
+   * model, falling back to the provider's default when none is set explicitly
+   * @param provider The profile's provider
+   * @param profile The endpoint profile (defaults to the active one)
+   * @returns The model name
+   */
+  private resolveModel(
+    provider: LLMProvider,
+    profile: EndpointProfile | undefined = this.configManager.getActiveProfile()
+  ): string {
+    if (profile?.model) {
+      return profile.model;
+    }
+
+    return this.configManager.hasExplicitValue('model')
+      ? this.configManager.getModel()
+      : provider.defaultModel;
+  }
+
+  /**
+   * Resolves everything needed to send requests to a profile's endpoint
+   * @param profile The endpoint profile, or undefined for the plain provider settings
+   * @returns The backend
+   */
+  private async resolveBackend(profile: EndpointProfile | undefined): Promise<Backend> {
+    const provider = this.getProvider(profile);
+    return {
+      name: profile?.name ?? 'Default',
+      profile,
+      provider,
+      endpoint: this.resolveEndpoint(provider, profile),
+      model: this.resolveModel(provider, profile),
+      apiKey: await this.configManager.getApiKeyForProfile(profile)
+    };
+  }
+
+  /**
+   * Resolves the active endpoint followed by the failover profiles, in order
+   * @returns The backends to try
+   */
+  private async resolveBackendChain(): Promise<Backend[]> {
+    const active = this.configManager.getActiveProfile();
+    const failover = this.configManager.getFailoverProfiles()
+      .filter(profile => profile.name !== active?.name);
+
+    return Promise.all([active, ...failover].map(profile => this.resolveBackend(profile)));
+  }
+
+  /**
+   * Checks whether a backend runs on this machine, so code sent to it never leaves it
+   * @param backend The resolved backend
+   * @returns True if the endpoint host is a loopback address
+   */
+  private isLocalBackend(backend: Backend): boolean {
+    try {
+      const hostname = new URL(backend.endpoint).hostname;
+      return hostname === 'localhost' ||
+        hostname.endsWith('.localhost') ||
+        hostname === '[::1]' ||
+        /^127(\.\d{1,3}){3}$/.test(hostname);
+    } catch {
+      return false;
+    }
   }
 
   /**
-   * Builds the LLM request payload
+   * Expands a profile's URL template and appends its query parameters
+   * @param profile The endpoint profile
+   * @param model The model name substituted for {model}
+   * @returns The endpoint URL
+   */
+  private buildProfileUrl(profile: EndpointProfile, model: string): string {
+    const url = new URL(profile.url.replace(/\{model\}/g, encodeURIComponent(model)));
+    for (const [key, value] of Object.entries(profile.queryParams ?? {})) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Gets the auth and extra headers a profile adds to every request
+   * @param profile The endpoint profile, if any
+   * @param apiKey The API key, if one is configured
+   * @returns The headers to add
+   */
+  private getProfileHeaders(profile: EndpointProfile | undefined, apiKey: string | undefined): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (apiKey && profile?.authScheme === AuthScheme.Bearer) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    } else if (apiKey && profile?.authScheme === AuthScheme.ApiKey) {
+      headers[profile.authHeader || 'api-key'] = apiKey;
+    }
+    return { ...headers, ...profile?.headers };
+  }
+
+  /**
+   * Builds the HTTP request for a backend, applying its profile's auth scheme and headers
+   * @param backend The backend to send the request to
+   * @param request The completion request
+   * @returns The HTTP request description
+   */
+  private buildHttpRequest(backend: Backend, request: CompletionRequest): ProviderHttpRequest {
+    const useProviderAuth = (backend.profile?.authScheme ?? AuthScheme.Provider) === AuthScheme.Provider;
+    const httpRequest = backend.provider.buildHttpRequest(
+      request,
+      backend.endpoint,
+      useProviderAuth ? backend.apiKey : undefined
+    );
+
+    return {
+      ...httpRequest,
+      headers: {
+        ...httpRequest.headers,
+        ...this.getProfileHeaders(backend.profile, backend.apiKey)
+      }
+    };
+  }
+
+  /**
+   * Builds the cache key for a commentary request
    * @param codeContext The code context to comment on
    * @param personality The personality prompt to use
-   * @returns The request payload
+   * @param model The model that answers, the active profile's by default
+   * @returns The cache key
    */
-  buildRequest(codeContext: CodeContext, personality: string): LLMRequest {
-    const model = this.configManager.getModel();
-    const maxTokens = this.configManager.getMaxTokens();
+  private getCacheKey(codeContext: CodeContext, personality: string, model: string = this.resolveModel(this.getProvider())): string {
+    // The same code with different problems, occasion or question gets a different prompt
+    const snippet = codeContext.snippet +
+      this.formatDiagnostics(codeContext.diagnostics ?? []) +
+      this.formatOccasion(codeContext.occasion) +
+      this.formatQuestion(codeContext.question);
+    return CommentaryCache.createKey(model, personality, codeContext.language, snippet);
+  }
+
+  /**
+   * Looks up previously generated commentary for unchanged code
+   * @param codeContext The code context to comment on
+   * @param personality The personality prompt to use
+   * @returns The cached response, or undefined on a miss
+   */
+  async getCachedCommentary(codeContext: CodeContext, personality: string): Promise<StructuredCommentaryResponse | undefined> {
+    if (!this.cache) {
+      return undefined;
+    }
+
+    try {
+      return await this.cache.get(this.getCacheKey(codeContext, personality));
+    } catch (error) {
+      console.error('[LLMService] Cache lookup failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Builds the provider-neutral completion request
+   * @param codeContext The code context to comment on
+   * @param personality The personality prompt to use
+   * @returns The completion request
+   */
+  buildRequest(codeContext: CodeContext, personality: string): CompletionRequest {
+    const enhancedPersonality = this.enhancePersonality(personality);
+
+    // Trim or grow the snippet so the whole prompt fits the token budget; a selection is sent exactly as chosen
+    const maxPromptTokens = this.configManager.getMaxPromptTokens();
+    let fittedContext = codeContext;
+    if (maxPromptTokens > 0 && codeContext.mode !== ContextMode.Selection) {
+      const overhead = estimateTokens(enhancedPersonality) +
+        estimateTokens(this.formatCodeContextPrompt({ ...codeContext, snippet: '' }));
+      const lines = codeContext.snippet.split('\n');
+      const fitted = fitSnippet({
+        lines,
+        // A diff has no cursor line to keep; any other snippet is centred on the cursor
+        focusIndex: codeContext.mode === ContextMode.Diff
+          ? Math.floor(lines.length / 2)
+          : codeContext.lineNumber - (codeContext.startLine ?? 1),
+        before: codeContext.linesBefore,
+        after: codeContext.linesAfter,
+        maxTokens: Math.max(0, maxPromptTokens - overhead)
+      });
+      fittedContext = { ...codeContext, snippet: fitted.text };
+    }
+
+    return this.createRequest(enhancedPersonality, this.formatCodeContextPrompt(fittedContext));
+  }
+
+  /**
+   * Builds the provider-neutral completion request for a finished build or test task
+   * @param taskResult How the task ended
+   * @param personality The personality prompt to use
+   * @returns The completion request
+   */
+  buildTaskRequest(taskResult: TaskResult, personality: string): CompletionRequest {
+    return this.createRequest(this.enhancePersonality(personality), this.formatTaskResultPrompt(taskResult));
+  }
+
+  /**
+   * Builds the provider-neutral completion request for a failed terminal command
+   * @param terminalContext The command and the tail of its output
+   * @param personality The personality prompt to use
+   * @returns The completion request
+   */
+  buildTerminalRequest(terminalContext: TerminalContext, personality: string): CompletionRequest {
+    const enhancedPersonality = this.enhancePersonality(personality);
+
+    // Keep the last lines of output, where the error usually is, within the token budget
+    const maxPromptTokens = this.configManager.getMaxPromptTokens();
+    let fittedContext = terminalContext;
+    if (maxPromptTokens > 0) {
+      const overhead = estimateTokens(enhancedPersonality) +
+        estimateTokens(this.formatTerminalPrompt({ ...terminalContext, output: '' }));
+      const lines = terminalContext.output.split('\n');
+      const fitted = fitSnippet({
+        lines,
+        focusIndex: lines.length - 1,
+        maxTokens: Math.max(0, maxPromptTokens - overhead)
+      });
+      fittedContext = {
+        ...terminalContext,
+        output: fitted.text,
+        outputTruncated: terminalContext.outputTruncated || fitted.text !== terminalContext.output
+      };
+    }
 
-    // Enhance personality prompt with JSON format requirement
-    const enhancedPersonality = `${personality}
+    return this.createRequest(enhancedPersonality, this.formatTerminalPrompt(fittedContext));
+  }
+
+  /**
+   * Adds the JSON format requirement to a personality prompt
+   */
+  private enhancePersonality(personality: string): string {
+    return `${personality}
 
 CRITICAL: Always respond with valid JSON containing both "commentary" and "expression" fields. Never respond with plain text.`;
+  }
+
+  /**
+   * Builds a completion request with the configured model and limits, logging its estimated size
+   */
+  private createRequest(systemPrompt: string, userPrompt: string): CompletionRequest {
+    const maxPromptTokens = this.configManager.getMaxPromptTokens();
+    const promptTokens = estimateTokens(systemPrompt) + estimateTokens(userPrompt);
+    console.log(
+      `[LLMService] Prompt estimate: ${promptTokens} tokens` +
+      (maxPromptTokens > 0 ? ` (budget ${maxPromptTokens})` : '')
+    );
 
     return {
-      model,
-      messages: [
-        {
-          role: 'system',
-          content: enhancedPersonality
-        },
-        {
-          role: 'user',
-          content: this.formatCodeContextPrompt(codeContext)
-        }
-      ],
-      max_tokens: maxTokens,
-      temperature: 0.6 
+      model: this.resolveModel(this.getProvider()),
+      systemPrompt,
+      userPrompt,
+      maxTokens: this.configManager.getMaxTokens(),
+      temperature: 0.6,
+      stream: this.configManager.isStreamingEnabled()
     };
   }
 
@@ -85,13 +422,109 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
    * Generates commentary for the given code context using the LLM
    * @param codeContext The code context to comment on
    * @param personality The personality prompt to use
+   * @param options Optional streaming callback and abort signal
+   * @returns The structured commentary response with text and expression
+   * @throws vscode.CancellationError if the signal is aborted
+   * @throws Error if API key is missing, API call fails, times out, or response is invalid
+   */
+  async generateCommentary(
+    codeContext: CodeContext,
+    personality: string,
+    options: CommentaryOptions = {}
+  ): Promise<StructuredCommentaryResponse> {
+    const cached = await this.getCachedCommentary(codeContext, personality);
+    if (cached) {
+      console.log('[LLMService] Using cached commentary');
+      return cached;
+    }
+
+    return this.complete(
+      () => this.buildRequest(codeContext, personality),
+      options,
+      () => this.generateOfflineCommentary(codeContext, options),
+      (model) => this.getCacheKey(codeContext, personality, model)
+    );
+  }
+
+  /**
+   * Generates commentary on a finished build or test task using the LLM
+   * @param taskResult How the task ended
+   * @param personality The personality prompt to use
+   * @param options Optional streaming callback and abort signal
+   * @returns The structured commentary response with text and expression
+   * @throws vscode.CancellationError if the signal is aborted
+   * @throws Error if API key is missing, API call fails, times out, or response is invalid
+   */
+  async generateTaskCommentary(
+    taskResult: TaskResult,
+    personality: string,
+    options: CommentaryOptions = {}
+  ): Promise<StructuredCommentaryResponse> {
+    return this.complete(
+      () => this.buildTaskRequest(taskResult, personality),
+      options,
+      () => this.offlineEngine.generateForTask(taskResult, options.petType ?? this.configManager.getSelectedPet())
+    );
+  }
+
+  /**
+   * Generates a one-line diagnosis of a failed terminal command using the LLM
+   * @param terminalContext The command and the tail of its output, redacted here before use
+   * @param personality The personality prompt to use
+   * @param options Optional streaming callback and abort signal
    * @returns The structured commentary response with text and expression
-   * @throws Error if API key is missing, API call fails, or response is invalid
+   * @throws vscode.CancellationError if the signal is aborted
+   * @throws Error if API key is missing, API call fails, times out, or response is invalid
    */
-  async generateCommentary(codeContext: CodeContext, personality: string): Promise<StructuredCommentaryResponse> {
-    // Retrieve API key from secure storage
-    const apiKey = await this.configManager.getApiKey();
-    if (!apiKey) {
+  async generateTerminalCommentary(
+    terminalContext: TerminalContext,
+    personality: string,
+    options: CommentaryOptions = {}
+  ): Promise<StructuredCommentaryResponse> {
+    const redactedContext = this.redactTerminalContext(terminalContext);
+    return this.complete(
+      () => this.buildTerminalRequest(redactedContext, personality),
+      options,
+      () => this.offlineEngine.generateForTerminal(redactedContext, options.petType ?? this.configManager.getSelectedPet())
+    );
+  }
+
+  /**
+   * Sends a commentary request through the endpoint chain, with the checks and fallbacks every request shares
+   * @param buildRequest Builds the completion request once an endpoint is available
+   * @param options Optional streaming callback and abort signal
+   * @param offline Produces rule-based commentary when no LLM can be used
+   * @param cacheKey Builds the key to cache the response under from the model that answered, if it may be reused
+   * @returns The structured commentary response
+   */
+  private async complete(
+    buildRequest: () => CompletionRequest,
+    options: CommentaryOptions,
+    offline: () => StructuredCommentaryResponse,
+    cacheKey?: (model: string) => string
+  ): Promise<StructuredCommentaryResponse> {
+    let backends = await this.resolveBackendChain();
+
+    // Restricted Mode keeps code on this machine, whatever keys are set
+    if (!vscode.workspace.isTrusted) {
+      backends = backends.filter(backend => this.isLocalBackend(backend));
+      if (backends.length === 0) {
+        if (this.configManager.isOfflineFallbackEnabled()) {
+          console.log('[LLMService] Restricted Mode, using offline commentary');
+          return offline();
+        }
+        throw new Error('Restricted Mode: code is not sent to remote LLMs until this workspace is trusted.');
+      }
+    }
+
+    // Only endpoints with a key (or that need none) can be tried
+    backends = backends.filter(backend => backend.apiKey || !this.isApiKeyRequired(backend.profile));
+    if (backends.length === 0) {
+      if (this.configManager.isOfflineFallbackEnabled()) {
+        console.warn('[LLMService] API key missing, using offline commentary');
+        return offline();
+      }
+
       const error = new Error('API key not configured. Please set your API key in the extension settings.');
       console.error('[LLMService] API key missing:', error.message);
       
@@ -108,24 +541,84 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
       throw error;
     }
 
-    // Get configuration
-    const endpoint = this.configManager.getApiEndpoint();
-
     // Format the request payload
-    const request = this.buildRequest(codeContext, personality);
+    const request = buildRequest();
+
+    // Leave a failing endpoint alone until the circuit breaker lets a probe through
+    const isProbe = this.circuitBreaker?.getState() === CircuitState.HalfOpen;
+    if (this.circuitBreaker && !this.circuitBreaker.tryAcquire()) {
+      if (this.configManager.isOfflineFallbackEnabled()) {
+        console.log('[LLMService] Endpoint circuit open, using offline commentary');
+        return offline();
+      }
+      throw new Error('LLM endpoint unavailable. Your pet will try again later.');
+    }
+
+    // Commentary already typed into the speech bubble, kept if the stream breaks off
+    let streamed: { commentary: string; expression?: ExpressionType } | undefined;
+    const onPartial = options.onPartial;
+    const streamingOptions: CommentaryOptions = {
+      ...options,
+      onPartial: onPartial && ((partial) => {
+        streamed = {
+          commentary: (streamed?.commentary ?? '') + partial.commentaryDelta,
+          expression: partial.expression ?? streamed?.expression
+        };
+        onPartial(partial);
+      })
+    };
 
     try {
-      const rawResponse = await this.makeApiRequest(apiKey, endpoint, request);
-      return parseStructuredResponse(rawResponse);
+      const { result, backend, isFallback } = await this.requestWithFailover(backends, request, streamingOptions);
+      this.circuitBreaker?.recordSuccess();
+      if (result.usage) {
+        const petType = options.petType ?? this.configManager.getSelectedPet();
+        this.usageTracker?.record(backend.model, petType, result.usage).catch((error) => {
+          console.error('[LLMService] Failed to record usage:', error);
+        });
+      }
+
+      const response = parseStructuredResponse(result.text);
+
+      // Key on the model that answered, so a failover backend's reply is not replayed as the active model's
+      if (cacheKey) {
+        this.cache?.set(cacheKey(backend.model), response).catch((error) => {
+          console.error('[LLMService] Failed to cache commentary:', error);
+        });
+      }
+
+      return { ...response, backend: backend.name, isFallback };
     } catch (error) {
+      // Cancelled requests are expected and need no handling
+      if (error instanceof vscode.CancellationError) {
+        if (isProbe) {
+          this.circuitBreaker?.releaseProbe();
+        }
+        throw error;
+      }
+
+      // Only count failures of the endpoint itself, not bad keys or unparseable output
+      if (error instanceof Error && this.isEndpointFailure(error)) {
+        this.circuitBreaker?.recordFailure(isProbe);
+      } else if (isProbe) {
+        this.circuitBreaker?.releaseProbe();
+      }
+
       if (error instanceof Error) {
         // Log the error for troubleshooting
         console.error('[LLMService] API error:', error.message, error.stack);
         
         // Handle specific error types
-        if (this.isNetworkError(error)) {
-          console.warn('[LLMService] Network error detected, queueing request for retry');
-          return this.queueForRetry(codeContext, personality);
+        if (this.isNetworkError(error) && this.configManager.isOfflineFallbackEnabled()) {
+          // Finish what the pet already started saying rather than replacing it with unrelated offline text
+          if (streamed?.commentary.trim()) {
+            console.warn('[LLMService] Stream broke off, keeping the partial commentary');
+            return { commentary: streamed.commentary.trim(), expression: streamed.expression ?? ExpressionType.Neutral };
+          }
+
+          // Keep the pet talking when no endpoint in the chain can be reached
+          console.warn('[LLMService] No endpoint reachable, using offline commentary');
+          return offline();
         } else if (this.isInvalidApiKeyError(error)) {
           // Prompt user to update API key
           vscode.window.showErrorMessage(
@@ -136,7 +629,7 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
               vscode.commands.executeCommand('spookyPets.setApiKey');
             }
           });
-        } else if (this.isRateLimitError(error)) {
+        } else if (this.isRateLimitError(error) && this.isEndpointHealthy()) {
           vscode.window.showWarningMessage(
             'Spooky Pets: Rate limit exceeded. Your pet will try again later.'
           );
@@ -150,32 +643,217 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
     }
   }
 
+  /**
+   * Checks whether the endpoint is considered healthy; while it is not,
+   * failures are reported through the circuit state rather than notifications
+   * @returns True if there is no circuit breaker or its circuit is closed
+   */
+  isEndpointHealthy(): boolean {
+    return !this.circuitBreaker || this.circuitBreaker.getState() === CircuitState.Closed;
+  }
+
+  /**
+   * Generates rule-based commentary without contacting any LLM
+   * @param codeContext The code context to comment on
+   * @param options The options of the original request
+   * @returns The structured commentary response
+   */
+  generateOfflineCommentary(codeContext: CodeContext, options: CommentaryOptions = {}): StructuredCommentaryResponse {
+    const petType = options.petType ?? this.configManager.getSelectedPet();
+    return this.offlineEngine.generate(codeContext, petType);
+  }
+
+  /**
+   * Lists the models available on the configured backend
+   * @returns The available model names
+   * @throws Error if the provider does not support model discovery or the request fails
+   */
+  async listModels(): Promise<string[]> {
+    return this.requestModelList(await this.resolveBackend(this.configManager.getActiveProfile()));
+  }
+
+  /**
+   * Checks whether the first usable endpoint in the chain answers, with a model list request where
+   * the provider supports one and otherwise a one-token completion that contains no code
+   * @returns True if it answers, false if it fails like an unhealthy endpoint, or undefined if no endpoint can be probed
+   */
+  async probeEndpoint(): Promise<boolean | undefined> {
+    const backend = (await this.resolveBackendChain())
+      .find(candidate => candidate.apiKey || !this.isApiKeyRequired(candidate.profile));
+    if (!backend) {
+      return undefined;
+    }
+
+    try {
+      if (backend.provider.getModelListUrl && backend.provider.parseModelList) {
+        await this.requestModelList(backend);
+      } else {
+        await this.makeApiRequest(backend, {
+          model: backend.model,
+          systemPrompt: 'Reply with OK.',
+          userPrompt: 'Are you there?',
+          maxTokens: 1,
+          temperature: 0,
+          stream: false
+        });
+      }
+      console.log(`[LLMService] Health probe of ${backend.name} succeeded`);
+      return true;
+    } catch (error) {
+      // Any answer other than an endpoint failure, such as a rejected request, shows the endpoint is up
+      const healthy = !(error instanceof Error && this.isEndpointFailure(error));
+      console.warn(`[LLMService] Health probe of ${backend.name} ${healthy ? 'answered' : 'failed'}:`, error);
+      return healthy;
+    }
+  }
+
+  /**
+   * Requests the models available on a backend
+   * @param backend The backend to ask
+   * @returns The available model names
+   * @throws Error if the provider does not support model discovery or the request fails
+   */
+  private async requestModelList(backend: Backend): Promise<string[]> {
+    const { provider, profile, endpoint, apiKey } = backend;
+    if (!provider.getModelListUrl || !provider.parseModelList) {
+      throw new Error(`Model discovery is not supported by the ${provider.type} provider`);
+    }
+
+    const url = provider.getModelListUrl(endpoint);
+
+    const headers: Record<string, string> = {};
+    if (apiKey && (profile?.authScheme ?? AuthScheme.Provider) === AuthScheme.Provider) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const timeoutSeconds = this.configManager.getRequestTimeout();
+    const timeoutSignal = timeoutSeconds > 0 ? AbortSignal.timeout(timeoutSeconds * 1000) : undefined;
+
+    const fetch = (await import('node-fetch')).default;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: { ...headers, ...this.getProfileHeaders(profile, apiKey) },
+      signal: timeoutSignal
+    }).catch((error) => {
+      throw timeoutSignal?.aborted ? new Error(`Request timed out after ${timeoutSeconds} seconds`) : error;
+    });
+
+    if (!response.ok) {
+      throw new Error(`Model list request failed with status ${response.status}: ${response.statusText}`);
+    }
+
+    return provider.parseModelList(await response.json());
+  }
+
+  /**
+   * Estimates the tokens a request will use, before the backend reports the real count
+   * @param request The completion request
+   * @returns The estimated prompt tokens plus the completion budget
+   */
+  private estimateRequestTokens(request: CompletionRequest): number {
+    return estimateTokens(request.systemPrompt) + estimateTokens(request.userPrompt) + request.maxTokens;
+  }
+
+  /**
+   * Sends the request to each backend in turn until one answers, falling through
+   * on network errors, server errors and exhausted rate-limit retries
+   * @param backends The backends to try, in order
+   * @param request The completion request
+   * @param options Optional streaming callback and abort signal
+   * @returns The result and the backend that produced it
+   * @throws The last backend's error if none of them answers
+   */
+  private async requestWithFailover(
+    backends: Backend[],
+    request: CompletionRequest,
+    options: CommentaryOptions
+  ): Promise<FailoverResult> {
+    for (let index = 0; ; index++) {
+      const backend = backends[index];
+      const next = backends[index + 1];
+
+      // Text streamed from one backend cannot be taken back, so stop falling through once it arrives
+      let hasStreamed = false;
+      const onPartial = options.onPartial;
+
+      try {
+        const result = await this.makeApiRequest(backend, { ...request, model: backend.model }, {
+          ...options,
+          onPartial: onPartial && ((partial) => {
+            hasStreamed = true;
+            onPartial(partial);
+          })
+        });
+        return { result, backend, isFallback: index > 0 };
+      } catch (error) {
+        const canFallThrough = next !== undefined &&
+          !hasStreamed &&
+          error instanceof Error &&
+          !(error instanceof vscode.CancellationError) &&
+          this.isEndpointFailure(error);
+        if (!canFallThrough) {
+          throw error;
+        }
+        console.warn(`[LLMService] ${backend.name} failed (${error.message}), falling back to ${next.name}`);
+      }
+    }
+  }
+
   /**
    * Makes the actual API request with retry logic
-   * @param apiKey The API key
-   * @param endpoint The API endpoint
-   * @param request The request payload
+   * @param backend The backend whose provider formats the request and parses the response
+   * @param request The completion request
+   * @param options Optional streaming callback and abort signal
    * @param retryCount Current retry attempt
-   * @returns The generated commentary text
+   * @returns The generated commentary text and reported token usage
    */
   private async makeApiRequest(
-    apiKey: string,
-    endpoint: string,
-    request: LLMRequest,
+    backend: Backend,
+    request: CompletionRequest,
+    options: CommentaryOptions = {},
     retryCount: number = 0
-  ): Promise<string> {
+  ): Promise<CompletionResult> {
+    const provider = backend.provider;
+
+    if (options.signal?.aborted) {
+      throw new vscode.CancellationError();
+    }
+
+    // Abort the attempt, including its wait for capacity, when the caller cancels or the timeout elapses
+    const timeoutSeconds = this.configManager.getRequestTimeout();
+    const timeoutSignal = timeoutSeconds > 0 ? AbortSignal.timeout(timeoutSeconds * 1000) : undefined;
+    const signals = [options.signal, timeoutSignal].filter((signal): signal is AbortSignal => !!signal);
+
+    // Every attempt, whatever triggered it, waits its turn under the shared limits
+    const estimatedTokens = this.estimateRequestTokens(request);
+    try {
+      await this.rateLimiter?.acquire(estimatedTokens, AbortSignal.any(signals));
+    } catch (error) {
+      if (!options.signal?.aborted && timeoutSignal?.aborted) {
+        throw new Error(`Rate limit exceeded: no capacity within ${timeoutSeconds} seconds`);
+      }
+      throw error;
+    }
+
+    // Once partial text has reached the speech bubble, a retry would duplicate it
+    let hasStreamed = false;
+
     try {
       // Dynamically import node-fetch
       const fetch = (await import('node-fetch')).default;
       
+      // Let the provider translate the request into its wire format
+      const httpRequest = this.buildHttpRequest(backend, request);
+
       // Make the API request
-      const response = await fetch(endpoint, {
+      const response = await fetch(httpRequest.url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
+          ...httpRequest.headers
         },
-        body: JSON.stringify(request)
+        body: JSON.stringify(httpRequest.body),
+        signal: AbortSignal.any(signals)
       });
 
       if (!response.ok) {
@@ -183,104 +861,110 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
           throw new Error('Invalid API key. Please check your API key configuration.');
         }
         if (response.status === 429) {
-          if (retryCount < this.MAX_RETRIES) {
-            const backoffMs = this.calculateBackoff(retryCount);
-            console.warn(`[LLMService] Rate limited, retrying in ${backoffMs}ms (attempt ${retryCount + 1}/${this.MAX_RETRIES})`);
-            await this.sleep(backoffMs);
-            return this.makeApiRequest(apiKey, endpoint, request, retryCount + 1);
+          // Prefer the server's own estimate of when it will accept requests again
+          const retryAfterMs = RateLimiter.parseRetryAfter(response.headers.get('retry-after'));
+          const delayMs = retryAfterMs ?? this.calculateBackoff(retryCount);
+          this.rateLimiter?.pauseFor(delayMs);
+
+          // Waiting longer than the timeout allows would only end in a timeout
+          const outlastsTimeout = timeoutSeconds > 0 && delayMs >= timeoutSeconds * 1000;
+          if (retryCount < this.MAX_RETRIES && !outlastsTimeout) {
+            console.warn(`[LLMService] Rate limited, retrying in ${delayMs}ms (attempt ${retryCount + 1}/${this.MAX_RETRIES})`);
+            // The limiter holds back the retry (and every other caller) until the pause ends
+            if (!this.rateLimiter) {
+              await this.sleep(delayMs, options.signal);
+            }
+            // The rejected attempt used no tokens, and the retry acquires its own
+            this.rateLimiter?.reconcile(estimatedTokens, 0);
+            return this.makeApiRequest(backend, request, options, retryCount + 1);
           }
           throw new Error('Rate limit exceeded. Please try again later.');
         }
         throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
       }
 
-      // Parse and validate the response
-      const data = await response.json() as LLMResponse;
-      
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error('Invalid API response: no choices returned');
+      let result: CompletionResult;
+      if (request.stream && response.body) {
+        result = await this.readStreamedResponse(provider, response.body, (partial) => {
+          hasStreamed = true;
+          options.onPartial?.(partial);
+        });
+      } else {
+        // Parse and validate the response
+        const data = await response.json();
+        result = { text: provider.parseResponse(data), usage: provider.parseUsage(data) };
       }
 
-      const message = data.choices[0]?.message?.content;
-      if (!message) {
-        throw new Error('Invalid API response: no message content');
+      if (result.usage) {
+        this.rateLimiter?.reconcile(estimatedTokens, result.usage.promptTokens + result.usage.completionTokens);
       }
 
-      return message.trim();
+      return { ...result, text: result.text.trim() };
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw new vscode.CancellationError();
+      }
+      if (timeoutSignal?.aborted) {
+        throw new Error(`Request timed out after ${timeoutSeconds} seconds`);
+      }
+
       // If it's a network error and we have retries left, apply exponential backoff
-      if (this.isNetworkError(error as Error) && retryCount < this.MAX_RETRIES) {
+      if (this.isNetworkError(error as Error) && !hasStreamed && retryCount < this.MAX_RETRIES) {
         const backoffMs = this.calculateBackoff(retryCount);
         console.warn(`[LLMService] Network error, retrying in ${backoffMs}ms (attempt ${retryCount + 1}/${this.MAX_RETRIES})`);
-        await this.sleep(backoffMs);
-        return this.makeApiRequest(apiKey, endpoint, request, retryCount + 1);
+        await this.sleep(backoffMs, options.signal);
+        this.rateLimiter?.reconcile(estimatedTokens, 0);
+        return this.makeApiRequest(backend, request, options, retryCount + 1);
       }
       throw error;
     }
   }
 
   /**
-   * Queues a request for retry when network is unavailable
-   * @param codeContext The code context
-   * @param personality The personality prompt
-   * @returns A promise that resolves when the request succeeds
+   * Reads a streamed response, forwarding commentary to the callback as it arrives
+   * @param provider The provider that parses the stream events
+   * @param body The response body stream
+   * @param onPartial Callback receiving newly available commentary
+   * @returns The full generated text and any token usage reported in the stream
    */
-  private queueForRetry(codeContext: CodeContext, personality: string): Promise<StructuredCommentaryResponse> {
-    return new Promise((resolve, reject) => {
-      this.retryQueue.push({
-        codeContext,
-        personality,
-        resolve,
-        reject,
-        retryCount: 0
-      });
-      
-      console.log(`[LLMService] Request queued for retry. Queue length: ${this.retryQueue.length}`);
-      
-      // Start processing the queue if not already processing
-      if (!this.isProcessingQueue) {
-        this.processRetryQueue();
-      }
-    });
-  }
+  private async readStreamedResponse(
+    provider: LLMProvider,
+    body: AsyncIterable<Uint8Array | string>,
+    onPartial: (partial: PartialCommentary) => void
+  ): Promise<CompletionResult> {
+    const parser = new IncrementalCommentaryParser();
+    // Backends spread token counts over several events (e.g. start and end of message)
+    let usage: Partial<TokenUsage> | undefined;
 
-  /**
-   * Processes the retry queue with exponential backoff
-   */
-  private async processRetryQueue(): Promise<void> {
-    if (this.isProcessingQueue || this.retryQueue.length === 0) {
-      return;
-    }
+    for await (const event of readStreamEvents(body, provider.streamFormat)) {
+      const eventUsage = provider.parseStreamUsage(event);
+      if (eventUsage) {
+        usage = { ...usage, ...eventUsage };
+      }
 
-    this.isProcessingQueue = true;
-    console.log(`[LLMService] Processing retry queue with ${this.retryQueue.length} items`);
+      const delta = provider.parseStreamEvent(event);
+      if (!delta) {
+        continue;
+      }
 
-    while (this.retryQueue.length > 0) {
-      const item = this.retryQueue[0];
-      
-      try {
-        const result = await this.generateCommentary(item.codeContext, item.personality);
-        item.resolve(result);
-        this.retryQueue.shift(); // Remove successful item
-        console.log(`[LLMService] Retry successful. Remaining queue: ${this.retryQueue.length}`);
-      } catch (error) {
-        item.retryCount++;
-        
-        if (item.retryCount >= this.MAX_RETRIES) {
-          // Max retries reached, reject and remove from queue
-          item.reject(error as Error);
-          this.retryQueue.shift();
-          console.error(`[LLMService] Max retries reached for queued item. Remaining queue: ${this.retryQueue.length}`);
-        } else {
-          // Wait before next retry
-          const backoffMs = this.calculateBackoff(item.retryCount);
-          console.warn(`[LLMService] Retry failed, waiting ${backoffMs}ms before next attempt`);
-          await this.sleep(backoffMs);
-        }
+      const partial = parser.push(delta);
+      if (partial.commentaryDelta || partial.expression) {
+        onPartial(partial);
       }
     }
 
-    this.isProcessingQueue = false;
+    const message = parser.getBuffer();
+    if (!message) {
+      throw new Error('Invalid API response: stream ended without message content');
+    }
+
+    return {
+      text: message,
+      usage: usage && {
+        promptTokens: usage.promptTokens ?? 0,
+        completionTokens: usage.completionTokens ?? 0
+      }
+    };
   }
 
   /**
@@ -295,9 +979,25 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
   /**
    * Sleep utility for delays
    * @param ms Milliseconds to sleep
+   * @param signal Optional signal that cuts the delay short with a cancellation error
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new vscode.CancellationError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new vscode.CancellationError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
@@ -312,7 +1012,8 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
       'ETIMEDOUT',
       'ECONNRESET',
       'network',
-      'fetch failed'
+      'fetch failed',
+      'premature close'  // The connection dropped partway through a response
     ];
     
     return networkErrorPatterns.some(pattern => 
@@ -320,6 +1021,18 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
     );
   }
 
+  /**
+   * Checks if an error means the endpoint is unreachable or unhealthy
+   * @param error The error to check
+   * @returns True if it's a network, timeout, rate limit or server error
+   */
+  private isEndpointFailure(error: Error): boolean {
+    return this.isNetworkError(error) ||
+           this.isRateLimitError(error) ||
+           error.message.includes('timed out') ||
+           /status 5\d\d/.test(error.message);
+  }
+
   /**
    * Checks if an error is an invalid API key error
    * @param error The error to check
@@ -341,54 +1054,495 @@ CRITICAL: Always respond with valid JSON containing both "commentary" and "expre
   }
 
   /**
-   * Extracts code context from the active editor around the cursor position
+   * Extracts code context from the active editor as chosen by the context mode: the lines
+   * around the cursor, the enclosing function, method or class, the uncommitted changes or
+   * the selection. Diff and selection modes fall back to the enclosing symbol when empty
    * @param editor The text editor to extract context from
    * @returns The code context
    */
-  extractCodeContext(editor: vscode.TextEditor): CodeContext {
+  async extractCodeContext(editor: vscode.TextEditor): Promise<CodeContext> {
+    const mode = this.configManager.getContextMode();
+    if (mode === ContextMode.Diff) {
+      const diffContext = await this.extractDiffContext(editor);
+      if (diffContext) {
+        return this.redactContext(diffContext);
+      }
+    }
+
     const document = editor.document;
     const position = editor.selection.active;
     const contextLines = this.configManager.getContextLines();
 
     // Calculate the range of lines to extract
-    const startLine = Math.max(0, position.line - Math.floor(contextLines / 2));
-    const endLine = Math.min(document.lineCount - 1, position.line + Math.floor(contextLines / 2));
+    let startLine = Math.max(0, position.line - Math.floor(contextLines / 2));
+    let endLine = Math.min(document.lineCount - 1, position.line + Math.floor(contextLines / 2));
+    let usedMode = ContextMode.Cursor;
+
+    const symbols = mode === ContextMode.Cursor ? [] : await this.findEnclosingSymbols(document, position);
+    const innermost = symbols[0];
+    if (mode === ContextMode.Selection && !editor.selection.isEmpty) {
+      startLine = editor.selection.start.line;
+      endLine = editor.selection.end.line;
+      usedMode = ContextMode.Selection;
+    } else if (innermost && innermost.range.end.line - innermost.range.start.line < this.MAX_SYMBOL_LINES) {
+      // Expand to the whole enclosing function, method or class unless it is too large to send
+      startLine = innermost.range.start.line;
+      endLine = innermost.range.end.line;
+      usedMode = ContextMode.Symbol;
+    }
+
+    // Offer the cursor window room to grow when the token budget allows
+    const canGrow = usedMode === ContextMode.Cursor;
 
     // Extract the code snippet
     const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
-    const snippet = document.getText(range);
+    const firstLine = canGrow ? Math.max(0, startLine - contextLines) : startLine;
+    const lastLine = canGrow ? Math.min(document.lineCount - 1, endLine + contextLines) : endLine;
+    const extracted = this.readRedactedLines(document, firstLine, lastLine);
+    const readLines = (from: number, to: number): string[] =>
+      extracted.lines.slice(Math.max(0, from - firstLine), Math.max(0, to - firstLine + 1));
+    const snippet = readLines(startLine, endLine).join('\n');
 
-    return {
+    return this.redactContext({
       language: document.languageId,
       snippet,
       lineNumber: position.line + 1, // Convert to 1-based line number
-      fileName: document.fileName
+      fileName: this.getDisplayFileName(document),
+      startLine: startLine + 1,
+      linesBefore: canGrow ? readLines(startLine - contextLines, startLine - 1) : undefined,
+      linesAfter: canGrow ? readLines(endLine + 1, endLine + contextLines) : undefined,
+      symbol: this.toEnclosingSymbol(symbols),
+      diagnostics: this.collectDiagnostics(document, [range]),
+      mode: usedMode
+    }, extracted.counts);
+  }
+
+  /**
+   * Extracts exactly the selected text from the editor, for questions about a specific piece of code
+   * @param editor The text editor whose selection to send
+   * @param question Optional question about the selection
+   * @returns The code context
+   */
+  async extractSelectionContext(editor: vscode.TextEditor, question?: string): Promise<CodeContext> {
+    const document = editor.document;
+    const selection = editor.selection;
+    const symbols = await this.findEnclosingSymbols(document, selection.start);
+
+    // Cut the first and last lines at the selection unless masking changed them, which would move the characters
+    const extracted = this.readRedactedLines(document, selection.start.line, selection.end.line);
+    const selected = extracted.lines;
+    const last = selected.length - 1;
+    const cutStart = selected[0] === document.lineAt(selection.start.line).text;
+    const cutEnd = selected[last] === document.lineAt(selection.end.line).text;
+    if (cutEnd) {
+      selected[last] = selected[last].substring(0, selection.end.character);
+    }
+    if (cutStart) {
+      selected[0] = selected[0].substring(selection.start.character);
+    }
+
+    return this.redactContext({
+      language: document.languageId,
+      snippet: selected.join('\n'),
+      lineNumber: selection.start.line + 1, // Convert to 1-based line number
+      fileName: this.getDisplayFileName(document),
+      startLine: selection.start.line + 1,
+      symbol: this.toEnclosingSymbol(symbols),
+      diagnostics: this.collectDiagnostics(document, [selection]),
+      mode: ContextMode.Selection,
+      question: question?.trim() || undefined
+    }, extracted.counts);
+  }
+
+  /**
+   * Names a document for the prompt without leaking raw URIs: unsaved documents by their title,
+   * notebook cells by their notebook and cell number, virtual files by their workspace path
+   * @param document The document the context comes from
+   * @returns The name to show the LLM
+   */
+  private getDisplayFileName(document: vscode.TextDocument): string {
+    const uri = document.uri;
+    switch (uri.scheme) {
+      case 'file':
+        return document.fileName;
+      case 'untitled':
+        return `${path.posix.basename(uri.path)} (unsaved)`;
+      case 'vscode-notebook-cell': {
+        const notebook = vscode.workspace.notebookDocuments.find(candidate =>
+          candidate.getCells().some(cell => cell.document === document)
+        );
+        if (!notebook) {
+          return `${path.posix.basename(uri.path)} (notebook cell)`;
+        }
+        const cellIndex = notebook.getCells().findIndex(cell => cell.document === document);
+        return `${this.getWorkspacePath(notebook.uri)} (cell ${cellIndex + 1})`;
+      }
+      default:
+        return this.getWorkspacePath(uri);
+    }
+  }
+
+  /**
+   * Gets a path relative to the workspace, or the bare file name outside it
+   * @param uri The document or notebook location
+   * @returns The path
+   */
+  private getWorkspacePath(uri: vscode.Uri): string {
+    return vscode.workspace.getWorkspaceFolder(uri)
+      ? vscode.workspace.asRelativePath(uri, false)
+      : path.posix.basename(uri.path);
+  }
+
+  /**
+   * Reads lines of a document with secrets masked, looking a margin past both ends so that
+   * cutting the lines out cannot split a secret into fragments no rule recognises
+   * @param document The document to read
+   * @param from The first line to read (0-based)
+   * @param to The last line to read (0-based)
+   * @returns The redacted lines and the matches masked in them
+   */
+  private readRedactedLines(document: vscode.TextDocument, from: number, to: number): LineRedactionResult {
+    const marginStart = this.redactor ? Math.max(0, from - this.REDACTION_MARGIN_LINES) : from;
+    const marginEnd = this.redactor ? Math.min(document.lineCount - 1, to + this.REDACTION_MARGIN_LINES) : to;
+    const lines: string[] = [];
+    for (let line = marginStart; line <= marginEnd; line++) {
+      lines.push(document.lineAt(line).text);
+    }
+    return this.redactor
+      ? this.redactor.redactWindow(lines, from - marginStart, to - marginStart)
+      : { lines, counts: {} };
+  }
+
+  /**
+   * Masks secrets and personal data before the context can reach the cache, the prompt or the LLM
+   * @param codeContext The extracted code context
+   * @param maskedCodeCounts Matches already masked in the code by readRedactedLines, which is not masked again
+   * @returns The redacted code context
+   */
+  private redactContext(codeContext: CodeContext, maskedCodeCounts?: Record<string, number>): CodeContext {
+    return this.redactor ? this.redactor.redactContext(codeContext, maskedCodeCounts) : codeContext;
+  }
+
+  /**
+   * Masks secrets and personal data in a terminal command and its output before they reach the prompt
+   * @param terminalContext The terminal context
+   * @returns The redacted terminal context
+   */
+  private redactTerminalContext(terminalContext: TerminalContext): TerminalContext {
+    return this.redactor ? this.redactor.redactTerminalContext(terminalContext) : terminalContext;
+  }
+
+  /**
+   * Builds a code context from the uncommitted changes to the active file
+   * @param editor The text editor to extract context from
+   * @returns The code context, or undefined if git reports no changes for the file
+   */
+  private async extractDiffContext(editor: vscode.TextEditor): Promise<CodeContext | undefined> {
+    let hunks: DiffHunk[] | undefined;
+    try {
+      hunks = await this.gitDiffReader.getUncommittedHunks(editor.document.uri);
+    } catch (error) {
+      console.warn('[LLMService] Failed to read uncommitted changes, using symbol context:', error);
+      return undefined;
+    }
+    if (!hunks || hunks.length === 0) {
+      return undefined;
+    }
+
+    return this.buildDiffContext(editor, hunks);
+  }
+
+  /**
+   * Builds a code context from changes to the active file, such as those made since it was last saved
+   * @param editor The text editor the changes were made in
+   * @param hunks The changed regions as unified diff hunks
+   * @param description What the changes are, for the prompt
+   * @returns The code context
+   */
+  async extractChangesContext(editor: vscode.TextEditor, hunks: DiffHunk[], description: string): Promise<CodeContext> {
+    return this.redactContext({ ...this.buildDiffContext(editor, hunks), diffDescription: description });
+  }
+
+  /**
+   * Builds a diff code context from the hunks nearest the cursor that fit
+   */
+  private buildDiffContext(editor: vscode.TextEditor, hunks: DiffHunk[]): CodeContext {
+    const document = editor.document;
+    const position = editor.selection.active;
+
+    // Keep the hunks nearest the cursor that fit, then restore file order
+    const distance = (hunk: DiffHunk) => Math.abs(hunk.newStart - 1 - position.line);
+    const kept: DiffHunk[] = [];
+    let lineCount = 0;
+    for (const hunk of [...hunks].sort((a, b) => distance(a) - distance(b))) {
+      const hunkLines = hunk.text.split('\n').length;
+      if (kept.length > 0 && lineCount + hunkLines > this.MAX_DIFF_LINES) {
+        break;
+      }
+      kept.push(hunk);
+      lineCount += hunkLines;
+    }
+    kept.sort((a, b) => a.newStart - b.newStart);
+
+    // Working copy lines touched by each hunk, for the problems inside them
+    const lastLine = document.lineCount - 1;
+    const ranges = kept.map(hunk => {
+      const start = Math.min(lastLine, Math.max(0, hunk.newStart - 1));
+      const end = Math.min(lastLine, Math.max(start, hunk.newStart + hunk.newLines - 2));
+      return new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+    });
+
+    return {
+      language: document.languageId,
+      snippet: kept.map(hunk => hunk.text).join('\n'),
+      lineNumber: position.line + 1, // Convert to 1-based line number
+      fileName: this.getDisplayFileName(document),
+      diagnostics: this.collectDiagnostics(document, ranges),
+      mode: ContextMode.Diff
     };
   }
 
+  /**
+   * Collects the compiler and linter problems inside the given ranges, limited to the configured severities
+   * @param document The document the problems belong to
+   * @param ranges The extracted ranges
+   * @returns The problems, in line order
+   */
+  private collectDiagnostics(document: vscode.TextDocument, ranges: vscode.Range[]): CodeDiagnostic[] {
+    const levels = this.configManager.getDiagnosticLevels();
+    if (levels.length === 0) {
+      return [];
+    }
+
+    return vscode.languages.getDiagnostics(document.uri)
+      .filter(diagnostic => ranges.some(range => range.intersection(diagnostic.range) !== undefined))
+      .map(diagnostic => ({
+        line: diagnostic.range.start.line + 1,
+        level: DIAGNOSTIC_LEVELS.get(diagnostic.severity) ?? DiagnosticLevel.Error,
+        // Long compiler messages continue on further lines; the first one carries the gist
+        message: diagnostic.message.split('\n')[0],
+        source: diagnostic.source
+      }))
+      .filter(diagnostic => levels.includes(diagnostic.level))
+      .sort((a, b) => a.line - b.line)
+      .slice(0, this.MAX_DIAGNOSTICS);
+  }
+
+  /**
+   * Formats problems for the prompt
+   * @param diagnostics The problems to list
+   * @returns The formatted list, or an empty string if there are none
+   */
+  private formatDiagnostics(diagnostics: CodeDiagnostic[]): string {
+    if (diagnostics.length === 0) {
+      return '';
+    }
+
+    const lines = diagnostics.map(diagnostic => {
+      const origin = diagnostic.source ? `${diagnostic.level}, ${diagnostic.source}` : diagnostic.level;
+      return `- Line ${diagnostic.line} (${origin}): ${diagnostic.message}`;
+    });
+    return `
+
+Problems reported by the compiler or linter in this code:
+${lines.join('\n')}`;
+  }
+
+  /**
+   * Finds the innermost function, method or class around a position, e.g. to notice the user staying in it
+   * @param document The document to search
+   * @param position The cursor position
+   * @returns The symbol with its containers, or undefined if the language reports none
+   */
+  async getEnclosingSymbol(document: vscode.TextDocument, position: vscode.Position): Promise<EnclosingSymbol | undefined> {
+    return this.toEnclosingSymbol(await this.findEnclosingSymbols(document, position));
+  }
+
+  /**
+   * Asks the language's symbol provider for the functions, methods and classes around a position
+   * @param document The document to search
+   * @param position The cursor position
+   * @returns The enclosing symbols, innermost first (empty if no provider answers in time)
+   */
+  private async findEnclosingSymbols(document: vscode.TextDocument, position: vscode.Position): Promise<SymbolMatch[]> {
+    let timer: NodeJS.Timeout | undefined;
+    let symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined;
+    try {
+      symbols = await Promise.race([
+        vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined>(
+          'vscode.executeDocumentSymbolProvider',
+          document.uri
+        ),
+        new Promise<undefined>((resolve) => {
+          timer = setTimeout(() => resolve(undefined), this.SYMBOL_TIMEOUT_MS);
+        })
+      ]);
+    } catch (error) {
+      console.warn('[LLMService] Document symbol lookup failed, using line window:', error);
+      return [];
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const matches: SymbolMatch[] = [];
+    const visit = (candidates: Array<vscode.DocumentSymbol | vscode.SymbolInformation>) => {
+      for (const symbol of candidates) {
+        const range = 'location' in symbol ? symbol.location.range : symbol.range;
+        if (!range.contains(position)) {
+          continue;
+        }
+
+        const kind = ENCLOSING_SYMBOL_KINDS.get(symbol.kind);
+        if (kind) {
+          matches.push({ name: symbol.name, kind, range });
+        }
+        if ('children' in symbol) {
+          visit(symbol.children);
+        }
+      }
+    };
+    visit(symbols ?? []);
+
+    // Flat SymbolInformation results come in no particular order, so sort by size
+    return matches.sort((a, b) =>
+      (a.range.end.line - a.range.start.line) - (b.range.end.line - b.range.start.line)
+    );
+  }
+
+  /**
+   * Links the enclosing symbols into a chain from the innermost outwards
+   * @param matches The enclosing symbols, innermost first
+   * @returns The innermost symbol, or undefined if there is none
+   */
+  private toEnclosingSymbol(matches: SymbolMatch[]): EnclosingSymbol | undefined {
+    return matches.reduceRight<EnclosingSymbol | undefined>(
+      (container, match) => ({ name: match.name, kind: match.kind, container }),
+      undefined
+    );
+  }
+
+  /**
+   * Formats the developer's question for the prompt
+   * @param question The question, if any
+   * @returns The formatted question, or an empty string if there is none
+   */
+  private formatQuestion(question: string | undefined): string {
+    if (!question) {
+      return '';
+    }
+
+    return `
+
+The developer asks about this code: "${question}"
+Answer the question in your commentary.`;
+  }
+
+  /**
+   * Formats what prompted the commentary for the prompt
+   * @param occasion The event that triggered the commentary, if any
+   * @returns The formatted occasion, or an empty string if there is none
+   */
+  private formatOccasion(occasion: string | undefined): string {
+    if (!occasion) {
+      return '';
+    }
+
+    return `
+
+What just happened: ${occasion}`;
+  }
+
+  /**
+   * Describes a symbol and its containers for the prompt, e.g. "method `foo` of class `Bar`"
+   * @param symbol The innermost enclosing symbol
+   * @returns The description
+   */
+  private describeSymbol(symbol: EnclosingSymbol): string {
+    const description = `${symbol.kind} \`${symbol.name}\``;
+    return symbol.container ? `${description} of ${this.describeSymbol(symbol.container)}` : description;
+  }
+
   /**
    * Formats the code context into a prompt for the LLM
    * @param codeContext The code context to format
    * @returns The formatted prompt
    */
   private formatCodeContextPrompt(codeContext: CodeContext): string {
-    return `Here's some ${codeContext.language} code from ${codeContext.fileName} around line ${codeContext.lineNumber}:
+    const isDiff = codeContext.mode === ContextMode.Diff;
+    const location = codeContext.symbol ? `, in ${this.describeSymbol(codeContext.symbol)}` : '';
+    const intro = isDiff
+      ? `Here are the ${codeContext.diffDescription ?? 'uncommitted changes'} to the ${codeContext.language} file ${codeContext.fileName}:`
+      : `Here's some ${codeContext.language} code from ${codeContext.fileName} around line ${codeContext.lineNumber}${location}:`;
+
+    return `${intro}
 
-\`\`\`${codeContext.language}
+\`\`\`${isDiff ? 'diff' : codeContext.language}
 ${codeContext.snippet}
-\`\`\`
+\`\`\`${this.formatDiagnostics(codeContext.diagnostics ?? [])}${this.formatOccasion(codeContext.occasion)}
 
-IMPORTANT: You must respond with valid JSON in this exact format:
-{
-  "commentary": "Your 1-2 sentence comment here",
-  "expression": "happy" | "neutral" | "concerned"
-}
+${RESPONSE_FORMAT}
 
 Expression guidelines:
 - "happy": Use when code is well-written, elegant, or shows good practices
 - "neutral": Use for observations, questions, or neutral commentary
-- "concerned": Use when spotting potential bugs, code smells, or areas for improvement
+- "concerned": Use when spotting potential bugs, code smells, reported problems, or areas for improvement
+
+Provide a brief, entertaining comment about ${isDiff ? 'these changes' : 'this code'}.${this.formatQuestion(codeContext.question)}`;
+  }
+
+  /**
+   * Formats how a build or test task ended into a prompt for the LLM, without any code
+   * @param taskResult How the task ended
+   * @returns The formatted prompt
+   */
+  private formatTaskResultPrompt(taskResult: TaskResult): string {
+    const outcome = taskResult.recovered
+      ? 'passes again after failing last time'
+      : `just failed with exit code ${taskResult.exitCode}`;
+    const request = taskResult.recovered
+      ? `Provide a brief, entertaining comment celebrating the ${taskResult.kind} recovering.`
+      : 'Provide a brief, entertaining comment about this failure. Be encouraging; you have not seen the output, so do not guess at the cause.';
+
+    return `The developer's ${taskResult.kind} task "${taskResult.name}" ${outcome}.
+
+${RESPONSE_FORMAT}
+
+Expression guidelines:
+- "happy": Use when celebrating a fixed ${taskResult.kind}
+- "neutral": Use for observations or questions
+- "concerned": Use when the ${taskResult.kind} is failing
+
+${request}`;
+  }
+
+  /**
+   * Formats a failed terminal command into a prompt for a one-line diagnosis
+   * @param terminalContext The command and the tail of its output
+   * @returns The formatted prompt
+   */
+  private formatTerminalPrompt(terminalContext: TerminalContext): string {
+    const output = terminalContext.output.trim()
+      ? `${terminalContext.outputTruncated ? 'The last lines of its output' : 'Its output'}:
+
+\`\`\`
+${terminalContext.output}
+\`\`\``
+      : 'It printed nothing.';
+
+    return `The developer ran this command in the terminal and it failed with exit code ${terminalContext.exitCode}:
+
+\`\`\`
+${terminalContext.commandLine}
+\`\`\`
+
+${output}
+
+${RESPONSE_FORMAT}
+
+Expression guidelines:
+- "neutral": Use when the failure is harmless, such as a typo in the command
+- "concerned": Use for real errors
 
-Provide a brief, entertaining comment about this code.`;
+Diagnose the failure in one short sentence, naming the most likely cause and, if obvious, the fix.`;
   }
 }
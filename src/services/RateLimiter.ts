@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from './ConfigurationManager.js';
+
+/**
+ * Interface for a bucket that refills continuously up to a per-minute capacity
+ */
+interface TokenBucket {
+  available: number;
+  updatedAt: number;
+}
+
+/**
+ * Client-side rate limiter shared by every LLM request, combining a request bucket
+ * and a token bucket so the pets stay under the provider's limits instead of reacting to 429s
+ */
+export class RateLimiter {
+  private static readonly WINDOW_MS = 60 * 1000;
+  private static readonly MAX_PAUSE_MS = 5 * 60 * 1000;
+
+  private configManager: ConfigurationManager;
+  private now: () => number;
+
+  private requestBucket?: TokenBucket;
+  private tokenBucket?: TokenBucket;
+
+  // Server-imposed pause (from Retry-After) that applies to every caller
+  private pausedUntil: number = 0;
+
+  // Waiters are served in arrival order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(configManager: ConfigurationManager, now: () => number = Date.now) {
+    this.configManager = configManager;
+    this.now = now;
+  }
+
+  /**
+   * Waits until a request of the given size may be sent, then takes its capacity
+   * @param estimatedTokens Estimated prompt and completion tokens for the request
+   * @param signal Optional signal that abandons the wait
+   * @throws vscode.CancellationError if the signal is aborted while waiting
+   */
+  acquire(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForCapacity(estimatedTokens, signal));
+    // A cancelled waiter must not hold up the ones behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Corrects the token bucket once the backend reports the actual usage
+   * @param estimatedTokens The estimate that was acquired
+   * @param actualTokens The tokens the request actually used
+   */
+  reconcile(estimatedTokens: number, actualTokens: number): void {
+    const limit = this.configManager.getTokensPerMinute();
+    if (limit <= 0 || !this.tokenBucket) {
+      return;
+    }
+
+    this.refill(this.tokenBucket, limit);
+    this.tokenBucket.available = Math.min(limit, this.tokenBucket.available + estimatedTokens - actualTokens);
+  }
+
+  /**
+   * Holds back all requests until the server says it will accept them again, for at most five minutes
+   * @param delayMs Milliseconds to wait, typically from a Retry-After header
+   */
+  pauseFor(delayMs: number): void {
+    const cappedMs = Math.min(Math.max(0, delayMs), RateLimiter.MAX_PAUSE_MS);
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + cappedMs);
+  }
+
+  /**
+   * Parses a Retry-After header value
+   * @param value The header value, either delay seconds or an HTTP date
+   * @param now The current time in milliseconds
+   * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+   */
+  static parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value.trim());
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+  }
+
+  /**
+   * Waits, re-checking after each delay, until both buckets and any pause allow the request
+   */
+  private async waitForCapacity(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new vscode.CancellationError();
+      }
+
+      const delayMs = this.getDelay(estimatedTokens);
+      if (delayMs <= 0) {
+        this.take(estimatedTokens);
+        return;
+      }
+
+      console.log(`[RateLimiter] Waiting ${Math.ceil(delayMs)}ms for capacity`);
+      await this.sleep(delayMs, signal);
+    }
+  }
+
+  /**
+   * Calculates how long until a request of the given size fits
+   */
+  private getDelay(estimatedTokens: number): number {
+    let delayMs = this.pausedUntil - this.now();
+
+    const requestLimit = this.configManager.getRequestsPerMinute();
+    if (requestLimit > 0) {
+      this.requestBucket = this.requestBucket ?? { available: requestLimit, updatedAt: this.now() };
+      delayMs = Math.max(delayMs, this.getBucketDelay(this.requestBucket, requestLimit, 1));
+    }
+
+    const tokenLimit = this.configManager.getTokensPerMinute();
+    if (tokenLimit > 0) {
+      this.tokenBucket = this.tokenBucket ?? { available: tokenLimit, updatedAt: this.now() };
+      // Oversized requests only need a full bucket, otherwise they would never fit
+      const needed = Math.min(estimatedTokens, tokenLimit);
+      delayMs = Math.max(delayMs, this.getBucketDelay(this.tokenBucket, tokenLimit, needed));
+    }
+
+    return delayMs;
+  }
+
+  /**
+   * Calculates how long until a bucket holds the needed amount
+   */
+  private getBucketDelay(bucket: TokenBucket, limit: number, needed: number): number {
+    this.refill(bucket, limit);
+    if (bucket.available >= needed) {
+      return 0;
+    }
+    return (needed - bucket.available) * RateLimiter.WINDOW_MS / limit;
+  }
+
+  /**
+   * Removes a request's capacity from both buckets
+   */
+  private take(estimatedTokens: number): void {
+    if (this.requestBucket && this.configManager.getRequestsPerMinute() > 0) {
+      this.requestBucket.available -= 1;
+    }
+
+    const tokenLimit = this.configManager.getTokensPerMinute();
+    if (this.tokenBucket && tokenLimit > 0) {
+      this.tokenBucket.available -= Math.min(estimatedTokens, tokenLimit);
+    }
+  }
+
+  /**
+   * Adds the capacity regained since the bucket was last updated
+   */
+  private refill(bucket: TokenBucket, limit: number): void {
+    const now = this.now();
+    const elapsed = now - bucket.updatedAt;
+    bucket.available = Math.min(limit, bucket.available + elapsed * limit / RateLimiter.WINDOW_MS);
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * Sleep utility for delays
+   * @param ms Milliseconds to sleep
+   * @param signal Optional signal that cuts the delay short with a cancellation error
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new vscode.CancellationError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,219 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from './ConfigurationManager.js';
+import { CodeContext } from '../models/CodeContext.js';
+import { RedactionRule } from '../models/RedactionRule.js';
+import { TerminalContext } from '../models/TerminalContext.js';
+
+/**
+ * Interface for text with its secrets masked
+ */
+export interface RedactionResult {
+  text: string;
+  counts: Record<string, number>;  // Matches masked per rule name
+}
+
+/**
+ * Interface for lines cut out of a document with their secrets masked
+ */
+export interface LineRedactionResult {
+  lines: string[];
+  counts: Record<string, number>;  // Matches masked in the kept lines per rule name
+}
+
+/**
+ * Rules applied unless the user replaces or disables them by name
+ */
+const BUILT_IN_RULES: RedactionRule[] = [
+  { name: 'private-key', pattern: '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----' },
+  { name: 'aws-access-key', pattern: '\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b' },
+  { name: 'aws-secret-key', pattern: '(?<=aws_?secret_?(?:access_?)?key["\']?\\s*[:=]\\s*["\']?)[A-Za-z0-9/+=]{40}', flags: 'i' },
+  { name: 'jwt', pattern: '\\beyJ[A-Za-z0-9_-]+\\.eyJ[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+' },
+  { name: 'api-key', pattern: '\\bsk-[A-Za-z0-9_-]{20,}' },
+  { name: 'github-token', pattern: '\\bgh[pousr]_[A-Za-z0-9]{36,}\\b' },
+  { name: 'connection-string', pattern: '(?<=\\b[a-z][a-z0-9+.-]*://)[^\\s:@/]+:[^\\s@/]+(?=@)', flags: 'i' },
+  { name: 'email', pattern: '\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}\\b' }
+];
+
+/**
+ * Masks secrets and personal data in code before it is sent to the LLM,
+ * logging what was masked (but never the matches) to the output channel
+ */
+export class Redactor {
+  private configManager: ConfigurationManager;
+  private outputChannel?: vscode.OutputChannel;
+
+  // Invalid user patterns are reported once rather than on every request
+  private reportedInvalidRules = new Set<string>();
+
+  constructor(configManager: ConfigurationManager, outputChannel?: vscode.OutputChannel) {
+    this.configManager = configManager;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Masks every match of the active rules
+   * @param text The text to redact
+   * @returns The redacted text and the number of matches per rule
+   */
+  redact(text: string): RedactionResult {
+    const counts: Record<string, number> = {};
+    return { text: this.mask(text, counts), counts };
+  }
+
+  /**
+   * Masks lines cut out of a document, reading the margins around them so a secret that
+   * crosses the edge of the cut is still recognised. Only matches that reach the kept lines
+   * are counted, and nothing is logged until the context is redacted
+   * @param lines The kept lines with their margins, one entry per line
+   * @param keepFrom Index of the first line to keep
+   * @param keepTo Index of the last line to keep
+   * @returns The kept lines, redacted, and the matches masked in them
+   */
+  redactWindow(lines: string[], keepFrom: number, keepTo: number): LineRedactionResult {
+    const counts: Record<string, number> = {};
+    const redacted = this.mask(lines.join('\n'), counts, (firstLine, lastLine) => lastLine >= keepFrom && firstLine <= keepTo)
+      .split('\n');
+
+    if (redacted.length === lines.length) {
+      return { lines: redacted.slice(keepFrom, keepTo + 1), counts };
+    }
+
+    // A user replacement with its own line breaks would shift the lines; fall back to masking each line
+    const kept = lines.slice(keepFrom, keepTo + 1).map(line => this.mask(line, counts));
+    return { lines: kept, counts };
+  }
+
+  /**
+   * Masks the snippet, its surrounding lines, question and problem messages of a code context
+   * @param codeContext The code context about to be sent
+   * @param maskedCodeCounts Matches redactWindow already masked in the snippet and its surrounding
+   * lines, which are then left as they are
+   * @returns A redacted copy of the code context
+   */
+  redactContext(codeContext: CodeContext, maskedCodeCounts?: Record<string, number>): CodeContext {
+    const counts: Record<string, number> = { ...maskedCodeCounts };
+    const redact = this.createCountingRedactor(counts);
+    const redactCode = maskedCodeCounts ? (text: string) => text : redact;
+
+    const redacted: CodeContext = {
+      ...codeContext,
+      snippet: redactCode(codeContext.snippet),
+      linesBefore: codeContext.linesBefore && redactCode(codeContext.linesBefore.join('\n')).split('\n'),
+      linesAfter: codeContext.linesAfter && redactCode(codeContext.linesAfter.join('\n')).split('\n'),
+      question: codeContext.question === undefined ? undefined : redact(codeContext.question),
+      diagnostics: codeContext.diagnostics?.map(diagnostic => ({ ...diagnostic, message: redact(diagnostic.message) }))
+    };
+
+    this.log(codeContext.fileName, counts);
+    return redacted;
+  }
+
+  /**
+   * Masks the command line and output of a failed terminal command
+   * @param terminalContext The terminal context about to be sent
+   * @returns A redacted copy of the terminal context
+   */
+  redactTerminalContext(terminalContext: TerminalContext): TerminalContext {
+    const counts: Record<string, number> = {};
+    const redact = this.createCountingRedactor(counts);
+
+    const redacted: TerminalContext = {
+      ...terminalContext,
+      commandLine: redact(terminalContext.commandLine),
+      output: redact(terminalContext.output)
+    };
+
+    this.log('terminal output', counts);
+    return redacted;
+  }
+
+  /**
+   * Replaces every match of the active rules, adding the counted ones to the given counts
+   * @param isCounted Decides from the lines a match spans whether it is counted; all are by default
+   */
+  private mask(text: string, counts: Record<string, number>, isCounted?: (firstLine: number, lastLine: number) => boolean): string {
+    if (!this.configManager.isRedactionEnabled()) {
+      return text;
+    }
+
+    let redacted = text;
+    for (const rule of this.getRules()) {
+      const regex = this.compile(rule);
+      if (!regex) {
+        continue;
+      }
+
+      const input = redacted;
+      redacted = input.replace(regex, (match: string, ...args: unknown[]) => {
+        const lineBreaks = match.split('\n').length - 1;
+        // The offset is the first number after the capture groups, which are strings or undefined
+        const offset = args.find((arg): arg is number => typeof arg === 'number') ?? 0;
+        const firstLine = isCounted ? input.substring(0, offset).split('\n').length - 1 : 0;
+        if (!isCounted || isCounted(firstLine, firstLine + lineBreaks)) {
+          counts[rule.name] = (counts[rule.name] ?? 0) + 1;
+        }
+        // Keep the line breaks of multi-line matches so the lines after them stay in place
+        return (rule.replacement ?? `[REDACTED:${rule.name}]`) + '\n'.repeat(lineBreaks);
+      });
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Creates a redact function that adds its matches to the given counts
+   */
+  private createCountingRedactor(counts: Record<string, number>): (text: string) => string {
+    return (text) => {
+      const result = this.redact(text);
+      for (const [name, count] of Object.entries(result.counts)) {
+        counts[name] = (counts[name] ?? 0) + count;
+      }
+      return result.text;
+    };
+  }
+
+  /**
+   * Combines the built-in rules with the user's; a user rule replaces the built-in rule
+   * of the same name, and an empty pattern turns it off
+   */
+  private getRules(): RedactionRule[] {
+    const userRules = this.configManager.getRedactionRules();
+    const overridden = new Set(userRules.map(rule => rule.name));
+
+    return [...BUILT_IN_RULES.filter(rule => !overridden.has(rule.name)), ...userRules]
+      .filter(rule => rule.pattern);
+  }
+
+  /**
+   * Compiles a rule into a global regular expression
+   * @returns The expression, or undefined if the pattern is invalid
+   */
+  private compile(rule: RedactionRule): RegExp | undefined {
+    try {
+      const flags = (rule.flags ?? '').replace(/g/g, '');
+      return new RegExp(rule.pattern, `${flags}g`);
+    } catch (error) {
+      if (!this.reportedInvalidRules.has(rule.name)) {
+        this.reportedInvalidRules.add(rule.name);
+        console.warn(`[Redactor] Skipping invalid redaction rule "${rule.name}":`, error);
+        this.outputChannel?.appendLine(`Skipping invalid redaction rule "${rule.name}": ${error}`);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Records what was redacted from a file or the terminal, without the redacted values themselves
+   */
+  private log(fileName: string, counts: Record<string, number>): void {
+    const entries = Object.entries(counts);
+    if (entries.length === 0) {
+      return;
+    }
+
+    const summary = entries.map(([name, count]) => `${count} × ${name}`).join(', ');
+    console.log(`[Redactor] Redacted ${summary} from ${fileName}`);
+    this.outputChannel?.appendLine(`[${new Date().toISOString()}] Redacted ${summary} from ${fileName}`);
+  }
+}
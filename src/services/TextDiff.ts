@@ -0,0 +1,140 @@
+import { DiffHunk } from './GitDiffReader.js';
+
+/**
+ * A single line of a line-by-line comparison
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  oldIndex: number;  // 0-based line in the old text this line is at
+  newIndex: number;  // 0-based line in the new text this line is at
+}
+
+/**
+ * Compares two versions of a file line by line, producing unified diff hunks
+ */
+export class TextDiff {
+  // Largest comparison table to build; bigger changes are reported as one block
+  private static readonly MAX_TABLE_CELLS = 1_000_000;
+
+  /**
+   * Finds the lines that changed between two versions of a text
+   * @param oldText The earlier version
+   * @param newText The later version
+   * @param contextLines Unchanged lines to show around each change
+   * @returns The hunks in file order, empty if the texts have the same lines
+   */
+  static diffLines(oldText: string, newText: string, contextLines: number = 3): DiffHunk[] {
+    const lines = TextDiff.compare(oldText.split(/\r?\n/), newText.split(/\r?\n/));
+
+    // Group changes that are close enough to share their context lines
+    const hunks: DiffHunk[] = [];
+    let index = 0;
+    while (index < lines.length) {
+      if (lines[index].type === ' ') {
+        index++;
+        continue;
+      }
+
+      const start = Math.max(0, index - contextLines);
+      let lastChange = index;
+      for (let next = index + 1; next < lines.length && next <= lastChange + 2 * contextLines; next++) {
+        if (lines[next].type !== ' ') {
+          lastChange = next;
+        }
+      }
+      const end = Math.min(lines.length - 1, lastChange + contextLines);
+
+      hunks.push(TextDiff.createHunk(lines.slice(start, end + 1)));
+      index = end + 1;
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Lines up two texts on their longest common subsequence of lines
+   */
+  private static compare(oldLines: string[], newLines: string[]): DiffLine[] {
+    // Unchanged lines at either end need no comparison table
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < oldLines.length - prefix &&
+      suffix < newLines.length - prefix &&
+      oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    const rows = oldMiddle.length + 1;
+    const columns = newMiddle.length + 1;
+
+    // lengths[i][j] is the longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+    const lengths = rows * columns <= TextDiff.MAX_TABLE_CELLS ? new Uint32Array(rows * columns) : undefined;
+    if (lengths) {
+      for (let i = oldMiddle.length - 1; i >= 0; i--) {
+        for (let j = newMiddle.length - 1; j >= 0; j--) {
+          lengths[i * columns + j] = oldMiddle[i] === newMiddle[j]
+            ? lengths[(i + 1) * columns + j + 1] + 1
+            : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+        }
+      }
+    }
+
+    const result: DiffLine[] = [];
+    for (let line = 0; line < prefix; line++) {
+      result.push({ type: ' ', text: oldLines[line], oldIndex: line, newIndex: line });
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      const oldIndex = prefix + i;
+      const newIndex = prefix + j;
+      if (lengths && i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: ' ', text: oldMiddle[i], oldIndex, newIndex });
+        i++;
+        j++;
+      } else if (
+        i < oldMiddle.length &&
+        (j >= newMiddle.length || !lengths || lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])
+      ) {
+        result.push({ type: '-', text: oldMiddle[i], oldIndex, newIndex });
+        i++;
+      } else {
+        result.push({ type: '+', text: newMiddle[j], oldIndex, newIndex });
+        j++;
+      }
+    }
+
+    for (let line = 0; line < suffix; line++) {
+      const oldIndex = oldLines.length - suffix + line;
+      result.push({ type: ' ', text: oldLines[oldIndex], oldIndex, newIndex: newLines.length - suffix + line });
+    }
+    return result;
+  }
+
+  /**
+   * Formats consecutive compared lines as a unified diff hunk
+   */
+  private static createHunk(lines: DiffLine[]): DiffHunk {
+    const oldLines = lines.filter(line => line.type !== '+').length;
+    const newLines = lines.filter(line => line.type !== '-').length;
+    // An empty side is numbered after the line it follows, as in unified diffs
+    const oldStart = lines[0].oldIndex + (oldLines > 0 ? 1 : 0);
+    const newStart = lines[0].newIndex + (newLines > 0 ? 1 : 0);
+
+    const header = `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`;
+    return {
+      newStart,
+      newLines,
+      text: [header, ...lines.map(line => `${line.type}${line.text}`)].join('\n')
+    };
+  }
+}
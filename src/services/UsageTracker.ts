@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from './ConfigurationManager.js';
+import { PetType } from '../models/PetType.js';
+import { UsageTotals } from '../models/UsageTotals.js';
+import { TokenUsage } from '../llm/index.js';
+
+/**
+ * Interface for the usage recorded on a single day
+ */
+export interface DailyUsage {
+  models: Record<string, UsageTotals>;
+  pets: Record<string, UsageTotals>;
+}
+
+/**
+ * Interface for usage aggregated over a period
+ */
+export interface UsageSummary {
+  total: UsageTotals;
+  models: Record<string, UsageTotals>;
+  pets: Record<string, UsageTotals>;
+}
+
+/**
+ * Records token usage and cost per day, model and pet in global state,
+ * and enforces the monthly budget for automatic commentary
+ */
+export class UsageTracker {
+  private static readonly STORAGE_KEY = 'spookyPets.usage';
+  private static readonly RETENTION_DAYS = 400;
+  private static readonly REPORT_DAYS = 30;
+
+  private globalState: vscode.Memento;
+  private configManager: ConfigurationManager;
+  private now: () => number;
+
+  constructor(globalState: vscode.Memento, configManager: ConfigurationManager, now: () => number = Date.now) {
+    this.globalState = globalState;
+    this.configManager = configManager;
+    this.now = now;
+  }
+
+  /**
+   * Calculates the cost of a completion from the configured price table
+   * @param model The model name
+   * @param usage The token usage
+   * @returns The cost in USD (0 for models without a price)
+   */
+  calculateCost(model: string, usage: TokenUsage): number {
+    const price = this.configManager.getModelPrices()[model];
+    if (!price) {
+      return 0;
+    }
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Records the usage of a completed request
+   * @param model The model that served the request
+   * @param petType The pet the commentary was generated for
+   * @param usage The token usage reported by the backend
+   */
+  async record(model: string, petType: PetType, usage: TokenUsage): Promise<void> {
+    const cost = this.calculateCost(model, usage);
+    const ledger = this.getLedger();
+    const today = this.formatDate(this.now());
+    const day = ledger[today] ?? { models: {}, pets: {} };
+
+    day.models[model] = this.addUsage(day.models[model], usage, cost);
+    day.pets[petType] = this.addUsage(day.pets[petType], usage, cost);
+    ledger[today] = day;
+
+    // Drop days that no report looks at any more
+    const cutoff = this.formatDate(this.now() - UsageTracker.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    for (const date of Object.keys(ledger)) {
+      if (date < cutoff) {
+        delete ledger[date];
+      }
+    }
+
+    await this.globalState.update(UsageTracker.STORAGE_KEY, ledger);
+  }
+
+  /**
+   * Gets the recorded usage per day
+   * @returns Daily usage keyed by local date (YYYY-MM-DD)
+   */
+  getDailyUsage(): Record<string, DailyUsage> {
+    return this.getLedger();
+  }
+
+  /**
+   * Aggregates the usage recorded since the start of the current month
+   * @returns The month-to-date summary
+   */
+  getMonthToDate(): UsageSummary {
+    const month = this.formatDate(this.now()).substring(0, 7);
+    const summary: UsageSummary = { total: this.emptyTotals(), models: {}, pets: {} };
+
+    for (const [date, day] of Object.entries(this.getLedger())) {
+      if (!date.startsWith(month)) {
+        continue;
+      }
+      for (const [model, totals] of Object.entries(day.models)) {
+        summary.models[model] = this.mergeTotals(summary.models[model], totals);
+        summary.total = this.mergeTotals(summary.total, totals);
+      }
+      for (const [pet, totals] of Object.entries(day.pets)) {
+        summary.pets[pet] = this.mergeTotals(summary.pets[pet], totals);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Checks whether this month's spending has reached the configured budget
+   * @returns True if a budget is set and has been reached
+   */
+  isBudgetExceeded(): boolean {
+    const budget = this.configManager.getMonthlyBudget();
+    return budget > 0 && this.getMonthToDate().total.cost >= budget;
+  }
+
+  /**
+   * Removes all recorded usage
+   */
+  async reset(): Promise<void> {
+    await this.globalState.update(UsageTracker.STORAGE_KEY, undefined);
+  }
+
+  /**
+   * Formats the recorded usage as a Markdown report
+   * @returns The report
+   */
+  formatReport(): string {
+    const summary = this.getMonthToDate();
+    const budget = this.configManager.getMonthlyBudget();
+    const month = this.formatDate(this.now()).substring(0, 7);
+
+    const lines = [
+      '# Spooky Pets Usage',
+      '',
+      budget > 0
+        ? `Spent **${this.formatCost(summary.total.cost)}** of the ${this.formatCost(budget)} monthly budget in ${month}.`
+        : `Spent **${this.formatCost(summary.total.cost)}** in ${month}. No monthly budget is set.`,
+      '',
+      '## This Month by Model',
+      '',
+      ...this.formatTable('Model', summary.models),
+      '',
+      '## This Month by Pet',
+      '',
+      ...this.formatTable('Pet', summary.pets),
+      '',
+      `## Last ${UsageTracker.REPORT_DAYS} Days`,
+      ''
+    ];
+
+    const ledger = this.getLedger();
+    const days: Record<string, UsageTotals> = {};
+    for (const date of Object.keys(ledger).sort().reverse().slice(0, UsageTracker.REPORT_DAYS)) {
+      days[date] = Object.values(ledger[date].models).reduce(
+        (total, totals) => this.mergeTotals(total, totals),
+        this.emptyTotals()
+      );
+    }
+    lines.push(...this.formatTable('Day', days));
+
+    lines.push('', 'Costs use the `spookyPets.modelPrices` table; models without a price count as free.', '');
+    return lines.join('\n');
+  }
+
+  /**
+   * Formats usage totals as a Markdown table
+   */
+  private formatTable(label: string, rows: Record<string, UsageTotals>): string[] {
+    const entries = Object.entries(rows);
+    if (entries.length === 0) {
+      return ['_No usage recorded._'];
+    }
+
+    return [
+      `| ${label} | Requests | Prompt tokens | Completion tokens | Cost |`,
+      '| --- | ---: | ---: | ---: | ---: |',
+      ...entries.map(([name, totals]) =>
+        `| ${name} | ${totals.requests} | ${totals.promptTokens} | ${totals.completionTokens} | ${this.formatCost(totals.cost)} |`
+      )
+    ];
+  }
+
+  /**
+   * Formats a USD amount with enough precision for per-request costs
+   */
+  private formatCost(cost: number): string {
+    return `$${cost.toFixed(4)}`;
+  }
+
+  /**
+   * Adds a single request's usage to a running total
+   */
+  private addUsage(totals: UsageTotals | undefined, usage: TokenUsage, cost: number): UsageTotals {
+    return this.mergeTotals(totals, {
+      requests: 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost
+    });
+  }
+
+  /**
+   * Sums two usage totals
+   */
+  private mergeTotals(a: UsageTotals | undefined, b: UsageTotals): UsageTotals {
+    const base = a ?? this.emptyTotals();
+    return {
+      requests: base.requests + b.requests,
+      promptTokens: base.promptTokens + b.promptTokens,
+      completionTokens: base.completionTokens + b.completionTokens,
+      cost: base.cost + b.cost
+    };
+  }
+
+  /**
+   * Creates zeroed usage totals
+   */
+  private emptyTotals(): UsageTotals {
+    return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+  }
+
+  /**
+   * Reads a copy of the stored ledger
+   */
+  private getLedger(): Record<string, DailyUsage> {
+    const stored = this.globalState.get<Record<string, DailyUsage>>(UsageTracker.STORAGE_KEY, {});
+    return JSON.parse(JSON.stringify(stored)) as Record<string, DailyUsage>;
+  }
+
+  /**
+   * Formats a timestamp as a local date (YYYY-MM-DD)
+   */
+  private formatDate(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
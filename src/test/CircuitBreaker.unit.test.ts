@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import { suite, test, setup, teardown } from 'mocha';
+import { CircuitBreaker } from '../services/CircuitBreaker.js';
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+import { CircuitState } from '../models/CircuitState.js';
+
+suite('CircuitBreaker Unit Tests', () => {
+  let threshold: number;
+  let cooldownSeconds: number;
+  let breaker: CircuitBreaker;
+  let stateChanges: CircuitState[];
+
+  setup(() => {
+    threshold = 3;
+    cooldownSeconds = 0.05;
+    stateChanges = [];
+
+    const configManager = {
+      getCircuitBreakerThreshold: () => threshold,
+      getCircuitBreakerCooldown: () => cooldownSeconds
+    } as unknown as ConfigurationManager;
+    breaker = new CircuitBreaker(configManager);
+    breaker.onDidChangeState(state => stateChanges.push(state));
+  });
+
+  teardown(() => {
+    breaker.dispose();
+  });
+
+  /**
+   * Waits for the cooldown to elapse
+   */
+  function waitForCooldown(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, cooldownSeconds * 1000 + 20));
+  }
+
+  test('should start closed and allow requests', () => {
+    assert.strictEqual(breaker.getState(), CircuitState.Closed);
+    assert.strictEqual(breaker.tryAcquire(), true);
+  });
+
+  test('should open after the failure threshold is reached', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    assert.strictEqual(breaker.getState(), CircuitState.Closed);
+
+    breaker.recordFailure();
+
+    assert.strictEqual(breaker.getState(), CircuitState.Open);
+    assert.strictEqual(breaker.tryAcquire(), false);
+    assert.ok(breaker.getNextProbeTime(), 'Open circuit should report when it will probe');
+    assert.deepStrictEqual(stateChanges, [CircuitState.Open]);
+  });
+
+  test('should reset the failure count after a success', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    assert.strictEqual(breaker.getState(), CircuitState.Closed);
+  });
+
+  test('should never open when disabled', () => {
+    threshold = 0;
+    for (let i = 0; i < 10; i++) {
+      breaker.recordFailure();
+    }
+
+    assert.strictEqual(breaker.getState(), CircuitState.Closed);
+  });
+
+  test('should allow a single probe once half-open', async () => {
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+    await waitForCooldown();
+
+    assert.strictEqual(breaker.getState(), CircuitState.HalfOpen);
+    assert.strictEqual(breaker.tryAcquire(), true, 'First request should be the probe');
+    assert.strictEqual(breaker.tryAcquire(), false, 'Only one probe should be in flight');
+  });
+
+  test('should close when the probe succeeds', async () => {
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+    await waitForCooldown();
+    breaker.tryAcquire();
+
+    breaker.recordSuccess();
+
+    assert.strictEqual(breaker.getState(), CircuitState.Closed);
+    assert.deepStrictEqual(stateChanges, [CircuitState.Open, CircuitState.HalfOpen, CircuitState.Closed]);
+  });
+
+  test('should reopen when the probe fails', async () => {
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+    await waitForCooldown();
+    breaker.tryAcquire();
+
+    breaker.recordFailure(true);
+
+    assert.strictEqual(breaker.getState(), CircuitState.Open);
+  });
+
+  test('should not push the cooldown out for late failures while open', async () => {
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+    const probeAt = breaker.getNextProbeTime();
+
+    // Requests sent before the circuit opened fail a little later
+    await new Promise(resolve => setTimeout(resolve, 10));
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    assert.strictEqual(breaker.getNextProbeTime(), probeAt);
+    assert.deepStrictEqual(stateChanges, [CircuitState.Open]);
+  });
+
+  test('should keep the probe in flight when another request fails late', async () => {
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+    await waitForCooldown();
+    breaker.tryAcquire();
+
+    breaker.recordFailure();
+
+    assert.strictEqual(breaker.getState(), CircuitState.HalfOpen);
+    assert.strictEqual(breaker.tryAcquire(), false, 'The probe should still hold the slot');
+  });
+
+  test('should free the probe slot when the probe is abandoned', async () => {
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+    await waitForCooldown();
+    breaker.tryAcquire();
+
+    breaker.releaseProbe();
+
+    assert.strictEqual(breaker.getState(), CircuitState.HalfOpen);
+    assert.strictEqual(breaker.tryAcquire(), true);
+  });
+
+  test('should close without a real request when the health probe succeeds', async () => {
+    let probes = 0;
+    breaker.setHealthProbe(async () => {
+      probes++;
+      return true;
+    });
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+
+    await waitForCooldown();
+
+    assert.strictEqual(probes, 1);
+    assert.strictEqual(breaker.getState(), CircuitState.Closed);
+    assert.deepStrictEqual(stateChanges, [CircuitState.Open, CircuitState.HalfOpen, CircuitState.Closed]);
+  });
+
+  test('should reopen and probe again when the health probe fails', async () => {
+    let probes = 0;
+    breaker.setHealthProbe(async () => {
+      probes++;
+      return false;
+    });
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+
+    await waitForCooldown();
+    assert.strictEqual(breaker.getState(), CircuitState.Open);
+
+    await waitForCooldown();
+    assert.strictEqual(probes, 2);
+  });
+
+  test('should stay half-open when the endpoint cannot be probed', async () => {
+    breaker.setHealthProbe(async () => undefined);
+    for (let i = 0; i < threshold; i++) {
+      breaker.recordFailure();
+    }
+
+    await waitForCooldown();
+
+    assert.strictEqual(breaker.getState(), CircuitState.HalfOpen);
+    assert.strictEqual(breaker.tryAcquire(), true, 'The next real request should be the probe');
+  });
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { suite, test, setup, teardown } from 'mocha';
+import { CommentaryCache } from '../services/CommentaryCache.js';
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+
+/**
+ * Create a mock ExtensionContext for testing
+ */
+function createMockContext(): vscode.ExtensionContext {
+  return {
+    subscriptions: []
+  } as any;
+}
+
+suite('CommentaryCache Unit Tests', () => {
+  let configManager: ConfigurationManager;
+  let storageUri: vscode.Uri;
+  let currentTime: number;
+  let cache: CommentaryCache;
+
+  setup(() => {
+    configManager = new ConfigurationManager(createMockContext());
+    storageUri = vscode.Uri.file(path.join(os.tmpdir(), `spooky-pets-cache-${Date.now()}-${Math.random()}`));
+    currentTime = 1_000_000;
+    cache = new CommentaryCache(storageUri, configManager, () => currentTime);
+  });
+
+  teardown(async () => {
+    configManager.dispose();
+    await vscode.workspace.fs.delete(storageUri, { recursive: true, useTrash: false }).then(undefined, () => undefined);
+  });
+
+  suite('Cache Keys', () => {
+    test('should produce the same key for the same inputs', () => {
+      assert.strictEqual(
+        CommentaryCache.createKey('gpt', 'pumpkin', 'typescript', 'const x = 1;'),
+        CommentaryCache.createKey('gpt', 'pumpkin', 'typescript', 'const x = 1;')
+      );
+    });
+
+    test('should produce different keys when any input changes', () => {
+      const key = CommentaryCache.createKey('gpt', 'pumpkin', 'typescript', 'const x = 1;');
+
+      assert.notStrictEqual(key, CommentaryCache.createKey('claude', 'pumpkin', 'typescript', 'const x = 1;'));
+      assert.notStrictEqual(key, CommentaryCache.createKey('gpt', 'ghost', 'typescript', 'const x = 1;'));
+      assert.notStrictEqual(key, CommentaryCache.createKey('gpt', 'pumpkin', 'javascript', 'const x = 1;'));
+      assert.notStrictEqual(key, CommentaryCache.createKey('gpt', 'pumpkin', 'typescript', 'const x = 2;'));
+    });
+  });
+
+  suite('Lookup and Expiry', () => {
+    test('should return stored responses', async () => {
+      await cache.set('key', { commentary: 'Boo', expression: ExpressionType.Happy });
+
+      const cached = await cache.get('key');
+
+      assert.deepStrictEqual(cached, { commentary: 'Boo', expression: ExpressionType.Happy });
+    });
+
+    test('should miss for unknown keys', async () => {
+      assert.strictEqual(await cache.get('missing'), undefined);
+    });
+
+    test('should expire entries after the time-to-live', async () => {
+      await cache.set('key', { commentary: 'Boo', expression: ExpressionType.Happy });
+
+      currentTime += configManager.getCacheTtlHours() * 60 * 60 * 1000 + 1;
+
+      assert.strictEqual(await cache.get('key'), undefined);
+    });
+
+    test('should evict the least recently used entry when full', async () => {
+      const maxEntries = configManager.getCacheMaxEntries();
+      for (let i = 0; i < maxEntries; i++) {
+        await cache.set(`key-${i}`, { commentary: `Boo ${i}`, expression: ExpressionType.Neutral });
+      }
+
+      // Touch the oldest entry so the second oldest becomes least recently used
+      await cache.get('key-0');
+      await cache.set('key-new', { commentary: 'New', expression: ExpressionType.Neutral });
+
+      assert.strictEqual(cache.getSize(), maxEntries);
+      assert.ok(await cache.get('key-0'), 'Recently used entry should survive');
+      assert.strictEqual(await cache.get('key-1'), undefined, 'Least recently used entry should be evicted');
+    });
+  });
+
+  suite('Persistence', () => {
+    test('should reload entries from global storage', async () => {
+      await cache.set('key', { commentary: 'Boo', expression: ExpressionType.Concerned });
+
+      // Writes happen in the background; give the pending save time to land
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const reloaded = new CommentaryCache(storageUri, configManager, () => currentTime);
+
+      assert.deepStrictEqual(await reloaded.get('key'), { commentary: 'Boo', expression: ExpressionType.Concerned });
+    });
+
+    test('should clear entries from memory and disk', async () => {
+      await cache.set('key', { commentary: 'Boo', expression: ExpressionType.Happy });
+      await cache.clear();
+
+      const reloaded = new CommentaryCache(storageUri, configManager, () => currentTime);
+
+      assert.strictEqual(cache.getSize(), 0);
+      assert.strictEqual(await reloaded.get('key'), undefined);
+    });
+  });
+});
@@ -170,6 +170,29 @@ suite('CommentaryScheduler Unit Tests', () => {
         assert.fail('Manual trigger should not throw when no active editor');
       }
     });
+
+    test('should handle asking about a selection when no active editor', async () => {
+      try {
+        await scheduler.askAboutSelection('Is this spooky?');
+        assert.strictEqual(scheduler.hasPendingCommentary(), false, 'Nothing should be sent without a selection');
+      } catch (error) {
+        assert.fail('Asking about a selection should not throw when no active editor');
+      }
+    });
+  });
+
+  suite('Request Cancellation', () => {
+    test('should have no pending commentary initially', () => {
+      assert.strictEqual(scheduler.hasPendingCommentary(), false);
+    });
+
+    test('should have no pending commentary after stop', async () => {
+      scheduler.start();
+      await scheduler.triggerManualCommentary();
+      scheduler.stop();
+
+      assert.strictEqual(scheduler.hasPendingCommentary(), false, 'Stopping should cancel in-flight commentary');
+    });
   });
 
   suite('Frequency Configuration', () => {
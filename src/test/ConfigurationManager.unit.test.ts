@@ -3,6 +3,8 @@ import * as vscode from 'vscode';
 import { suite, test, setup, teardown } from 'mocha';
 import { ConfigurationManager } from '../services/ConfigurationManager.js';
 import { PetType } from '../models/PetType.js';
+import { DiagnosticLevel } from '../models/DiagnosticLevel.js';
+import { ContextMode } from '../models/ContextMode.js';
 
 /**
  * Mock implementation of VS Code's SecretStorage for testing
@@ -133,6 +135,50 @@ suite('ConfigurationManager Unit Tests', () => {
       
       assert.strictEqual(retrieved, longKey);
     });
+
+    test('should keep a separate API key for each endpoint profile', async () => {
+      const config = vscode.workspace.getConfiguration('spookyPets');
+      await configManager.setApiKey('sk-default');
+      await config.update('endpointProfiles', [{ name: 'Azure', url: 'https://example.com' }], vscode.ConfigurationTarget.Global);
+
+      try {
+        await configManager.setActiveProfile('Azure');
+        assert.strictEqual(await configManager.getApiKey(), undefined, 'New profile should start without a key');
+
+        await configManager.setApiKey('azure-key');
+        assert.strictEqual(await configManager.getApiKey(), 'azure-key');
+
+        await configManager.setActiveProfile(undefined);
+        assert.strictEqual(await configManager.getApiKey(), 'sk-default');
+      } finally {
+        await config.update('activeProfile', undefined, vscode.ConfigurationTarget.Global);
+        await config.update('endpointProfiles', undefined, vscode.ConfigurationTarget.Global);
+      }
+    });
+  });
+
+  suite('Model Selection', () => {
+    test('should set the model on the active endpoint profile', async () => {
+      const config = vscode.workspace.getConfiguration('spookyPets');
+      await config.update('endpointProfiles', [
+        { name: 'Local', url: 'http://localhost:11434', model: 'llama3' },
+        { name: 'Other', url: 'http://localhost:8080', model: 'mistral' }
+      ], vscode.ConfigurationTarget.Global);
+
+      try {
+        const modelBefore = configManager.getModel();
+        await configManager.setActiveProfile('Local');
+
+        await configManager.setModel('qwen2.5-coder');
+
+        assert.strictEqual(configManager.getActiveProfile()?.model, 'qwen2.5-coder');
+        assert.strictEqual(configManager.getEndpointProfiles()[1].model, 'mistral');
+        assert.strictEqual(configManager.getModel(), modelBefore, 'spookyPets.model should be left alone');
+      } finally {
+        await config.update('activeProfile', undefined, vscode.ConfigurationTarget.Global);
+        await config.update('endpointProfiles', undefined, vscode.ConfigurationTarget.Global);
+      }
+    });
   });
 
   suite('Configuration Change Events', () => {
@@ -224,6 +270,25 @@ suite('ConfigurationManager Unit Tests', () => {
       assert.strictEqual(contextLines, 15);
     });
 
+    test('should return default max prompt tokens of 1000', () => {
+      assert.strictEqual(configManager.getMaxPromptTokens(), 1000);
+    });
+
+    test('should offer a hint after 10 stuck minutes and sleep after 5 idle minutes by default', () => {
+      assert.strictEqual(configManager.getStuckAfterMinutes(), 10);
+      assert.strictEqual(configManager.getSleepAfterMinutes(), 5);
+    });
+
+    test('should comment on the enclosing symbol by default', () => {
+      assert.strictEqual(configManager.getContextMode(), ContextMode.Symbol);
+    });
+
+    test('should include errors and warnings in the context by default', () => {
+      const levels = configManager.getDiagnosticLevels();
+
+      assert.deepStrictEqual(levels, [DiagnosticLevel.Error, DiagnosticLevel.Warning]);
+    });
+
     test('should return undefined for custom prompt when not set', () => {
       const prompt = configManager.getCustomPrompt(PetType.Pumpkin);
       
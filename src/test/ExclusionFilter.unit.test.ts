@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { suite, test, setup } from 'mocha';
+import { ExclusionFilter } from '../services/ExclusionFilter.js';
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+
+/**
+ * Creates a minimal document for matching against the exclusion rules
+ */
+function createDocument(fsPath: string, languageId: string): vscode.TextDocument {
+  const uri = vscode.Uri.file(fsPath);
+  return { uri, fileName: uri.fsPath, languageId } as unknown as vscode.TextDocument;
+}
+
+suite('ExclusionFilter Unit Tests', () => {
+  let excludePatterns: string[];
+  let languageFilter: string[];
+  let filter: ExclusionFilter;
+
+  setup(() => {
+    excludePatterns = ['**/.env', '**/secrets/**', '**/*.lock'];
+    languageFilter = [];
+
+    const configManager = {
+      getExcludePatterns: () => excludePatterns,
+      getLanguageFilter: () => languageFilter
+    } as unknown as ConfigurationManager;
+    filter = new ExclusionFilter(configManager);
+  });
+
+  test('should exclude files matching an exclude pattern', () => {
+    assert.strictEqual(
+      filter.getExclusionReason(createDocument('/work/app/.env', 'dotenv')),
+      '.env matches the exclude pattern "**/.env"'
+    );
+    assert.ok(filter.isExcluded(createDocument('/work/app/secrets/db.ts', 'typescript')));
+    assert.ok(filter.isExcluded(createDocument('/work/app/Cargo.lock', 'toml')));
+  });
+
+  test('should allow files that match no rule', () => {
+    assert.strictEqual(filter.getExclusionReason(createDocument('/work/app/src/pet.ts', 'typescript')), undefined);
+  });
+
+  test('should deny languages prefixed with an exclamation mark', () => {
+    languageFilter = ['!markdown'];
+
+    assert.ok(filter.isExcluded(createDocument('/work/app/README.md', 'markdown')));
+    assert.ok(!filter.isExcluded(createDocument('/work/app/src/pet.ts', 'typescript')));
+  });
+
+  test('should only allow listed languages once any are listed', () => {
+    languageFilter = ['typescript', 'python'];
+
+    assert.ok(!filter.isExcluded(createDocument('/work/app/src/pet.ts', 'typescript')));
+    assert.strictEqual(
+      filter.getExclusionReason(createDocument('/work/app/src/pet.go', 'go')),
+      'go files are excluded by spookyPets.languages'
+    );
+  });
+});
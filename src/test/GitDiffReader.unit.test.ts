@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { GitDiffReader } from '../services/GitDiffReader.js';
+
+suite('GitDiffReader Unit Tests', () => {
+  const diff = [
+    'diff --git a/src/pet.ts b/src/pet.ts',
+    'index 3b18e51..a9c2f4d 100644',
+    '--- a/src/pet.ts',
+    '+++ b/src/pet.ts',
+    '@@ -3,4 +3,5 @@ export class Pet {',
+    '   name: string;',
+    '-  age: number;',
+    '+  age = 0;',
+    '+  mood = "spooky";',
+    '   constructor() {}',
+    '@@ -20 +21 @@ function feed() {',
+    '-  return 1;',
+    '+  return 2;',
+    '\\ No newline at end of file',
+    ''
+  ].join('\n');
+
+  test('should split a unified diff into hunks without the file headers', () => {
+    const hunks = GitDiffReader.parseHunks(diff);
+
+    assert.strictEqual(hunks.length, 2);
+    assert.ok(hunks[0].text.startsWith('@@ -3,4 +3,5 @@'));
+    assert.ok(!hunks[0].text.includes('+++ b/src/pet.ts'));
+    assert.strictEqual(hunks[0].text.split('\n').length, 6);
+    assert.ok(hunks[1].text.endsWith('\\ No newline at end of file'));
+  });
+
+  test('should read the working copy lines each hunk covers', () => {
+    const hunks = GitDiffReader.parseHunks(diff);
+
+    assert.deepStrictEqual(
+      hunks.map(hunk => [hunk.newStart, hunk.newLines]),
+      [[3, 5], [21, 1]]
+    );
+  });
+
+  test('should return no hunks for an unchanged file', () => {
+    assert.deepStrictEqual(GitDiffReader.parseHunks(''), []);
+  });
+});
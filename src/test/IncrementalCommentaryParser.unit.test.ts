@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { IncrementalCommentaryParser } from '../models/IncrementalCommentaryParser.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+
+suite('IncrementalCommentaryParser Unit Tests', () => {
+  test('should emit commentary text as it arrives', () => {
+    const parser = new IncrementalCommentaryParser();
+
+    assert.strictEqual(parser.push('{"commen').commentaryDelta, '');
+    assert.strictEqual(parser.push('tary": "Boo').commentaryDelta, 'Boo');
+    assert.strictEqual(parser.push(', nice').commentaryDelta, ', nice');
+    assert.strictEqual(parser.push(' loop!", "expression"').commentaryDelta, ' loop!');
+    assert.strictEqual(parser.push(': "happy"}').commentaryDelta, '');
+  });
+
+  test('should report the expression once it is complete', () => {
+    const parser = new IncrementalCommentaryParser();
+
+    assert.strictEqual(parser.push('{"expression": "conc').expression, undefined);
+    assert.strictEqual(parser.push('erned", ').expression, ExpressionType.Concerned);
+    assert.strictEqual(parser.push('"commentary": "Hmm"}').expression, undefined, 'Expression should only be reported once');
+  });
+
+  test('should ignore unknown expressions', () => {
+    const parser = new IncrementalCommentaryParser();
+
+    assert.strictEqual(parser.push('{"expression": "furious", "commentary": "Grr"}').expression, undefined);
+  });
+
+  test('should decode escape sequences split across chunks', () => {
+    const parser = new IncrementalCommentaryParser();
+    let text = '';
+
+    for (const chunk of ['{"commentary": "Say \\', '"boo\\', '" \\u00', '41\\n', '"}']) {
+      text += parser.push(chunk).commentaryDelta;
+    }
+
+    assert.strictEqual(text, 'Say "boo" A\n');
+  });
+
+  test('should keep the full raw response', () => {
+    const parser = new IncrementalCommentaryParser();
+    parser.push('{"commentary": "Boo", ');
+    parser.push('"expression": "neutral"}');
+
+    assert.strictEqual(parser.getBuffer(), '{"commentary": "Boo", "expression": "neutral"}');
+  });
+});
@@ -2,7 +2,8 @@ import * as assert from 'assert';
 import * as fc from 'fast-check';
 import * as vscode from 'vscode';
 import { suite, test, setup, teardown } from 'mocha';
-import { LLMService, LLMRequest } from '../services/LLMService.js';
+import { LLMService } from '../services/LLMService.js';
+import { OpenAIProvider } from '../llm/index.js';
 import { ConfigurationManager } from '../services/ConfigurationManager.js';
 import { CodeContext } from '../models/CodeContext.js';
 import { PetType } from '../models/PetType.js';
@@ -88,64 +89,72 @@ suite('LLMService Property Tests', () => {
 
   // Feature: spooky-code-pets, Property 9: OpenAI API format compliance
   // Validates: Requirements 3.4
-  test('Property 9: All LLM requests conform to OpenAI API format', () => {
-    return fc.assert(
-      fc.property(
-        fc.record({
-          language: fc.constantFrom('typescript', 'javascript', 'python', 'java', 'go'),
-          snippet: fc.string({ minLength: 10, maxLength: 500 }),
-          lineNumber: fc.integer({ min: 1, max: 1000 }),
-          fileName: fc.string({ minLength: 1, maxLength: 100 }).map(s => `${s}.ts`)
-        }),
-        fc.string({ minLength: 20, maxLength: 500 }),
-        (codeContext: CodeContext, personality: string) => {
-          // Build the request using the public method
-          const request = llmService.buildRequest(codeContext, personality);
+  test('Property 9: All LLM requests conform to OpenAI API format', async () => {
+    // Without a prompt budget the whole snippet is sent
+    const config = vscode.workspace.getConfiguration('spookyPets');
+    await config.update('maxPromptTokens', 0, vscode.ConfigurationTarget.Global);
 
-          // Verify OpenAI API format compliance
-          assert.ok(request, 'Request should be built');
-          assert.ok(request.model, 'Request must have model field');
-          assert.ok(typeof request.model === 'string', 'Model must be a string');
-          
-          assert.ok(Array.isArray(request.messages), 'Request must have messages array');
-          assert.ok(request.messages.length >= 2, 'Must have at least system and user messages');
-          
-          assert.ok(typeof request.max_tokens === 'number', 'Request must have max_tokens as number');
-          assert.ok(request.max_tokens > 0, 'max_tokens must be positive');
-          
-          assert.ok(typeof request.temperature === 'number', 'Request must have temperature as number');
-          assert.ok(request.temperature >= 0 && request.temperature <= 2, 'Temperature must be between 0 and 2');
-          
-          // Verify messages structure
-          for (const message of request.messages) {
-            assert.ok(message.role, 'Each message must have a role');
-            assert.ok(message.content, 'Each message must have content');
-            assert.ok(typeof message.role === 'string', 'Role must be a string');
-            assert.ok(typeof message.content === 'string', 'Content must be a string');
-            assert.ok(['system', 'user', 'assistant'].includes(message.role), 'Role must be valid OpenAI role');
+    try {
+      await fc.assert(
+        fc.property(
+          fc.record({
+            language: fc.constantFrom('typescript', 'javascript', 'python', 'java', 'go'),
+            snippet: fc.string({ minLength: 10, maxLength: 500 }),
+            lineNumber: fc.integer({ min: 1, max: 1000 }),
+            fileName: fc.string({ minLength: 1, maxLength: 100 }).map(s => `${s}.ts`)
+          }),
+          fc.string({ minLength: 20, maxLength: 500 }),
+          (codeContext: CodeContext, personality: string) => {
+            // Build the request using the public method and translate it to the OpenAI wire format
+            const request = new OpenAIProvider().buildPayload(llmService.buildRequest(codeContext, personality));
+
+            // Verify OpenAI API format compliance
+            assert.ok(request, 'Request should be built');
+            assert.ok(request.model, 'Request must have model field');
+            assert.ok(typeof request.model === 'string', 'Model must be a string');
+            
+            assert.ok(Array.isArray(request.messages), 'Request must have messages array');
+            assert.ok(request.messages.length >= 2, 'Must have at least system and user messages');
+            
+            assert.ok(typeof request.max_tokens === 'number', 'Request must have max_tokens as number');
+            assert.ok(request.max_tokens > 0, 'max_tokens must be positive');
+            
+            assert.ok(typeof request.temperature === 'number', 'Request must have temperature as number');
+            assert.ok(request.temperature >= 0 && request.temperature <= 2, 'Temperature must be between 0 and 2');
+            
+            // Verify messages structure
+            for (const message of request.messages) {
+              assert.ok(message.role, 'Each message must have a role');
+              assert.ok(message.content, 'Each message must have content');
+              assert.ok(typeof message.role === 'string', 'Role must be a string');
+              assert.ok(typeof message.content === 'string', 'Content must be a string');
+              assert.ok(['system', 'user', 'assistant'].includes(message.role), 'Role must be valid OpenAI role');
+            }
+            
+            // Verify system message is first
+            assert.strictEqual(request.messages[0].role, 'system', 'First message must be system message');
+            assert.ok(request.messages[0].content.startsWith(personality), 'System message must contain personality');
+            
+            // Verify user message contains code context
+            assert.strictEqual(request.messages[1].role, 'user', 'Second message must be user message');
+            assert.ok(request.messages[1].content.includes(codeContext.snippet), 'User message must include code snippet');
           }
-          
-          // Verify system message is first
-          assert.strictEqual(request.messages[0].role, 'system', 'First message must be system message');
-          assert.strictEqual(request.messages[0].content, personality, 'System message must contain personality');
-          
-          // Verify user message contains code context
-          assert.strictEqual(request.messages[1].role, 'user', 'Second message must be user message');
-          assert.ok(request.messages[1].content.includes(codeContext.snippet), 'User message must include code snippet');
-        }
-      ),
-      { numRuns: 100 }
-    );
+        ),
+        { numRuns: 100 }
+      );
+    } finally {
+      await config.update('maxPromptTokens', undefined, vscode.ConfigurationTarget.Global);
+    }
   });
 
   // Feature: spooky-code-pets, Property 10: Code context inclusion
   // Validates: Requirements 4.1, 4.2
   test('Property 10: Code context extraction includes bounded context around cursor', () => {
     return fc.assert(
-      fc.property(
+      fc.asyncProperty(
         fc.integer({ min: 0, max: 100 }), // cursor line
         fc.array(fc.string({ minLength: 1, maxLength: 100 }), { minLength: 10, maxLength: 200 }), // document lines
-        (cursorLine: number, documentLines: string[]) => {
+        async (cursorLine: number, documentLines: string[]) => {
           // Ensure cursor line is within document bounds
           const actualCursorLine = Math.min(cursorLine, documentLines.length - 1);
           
@@ -174,7 +183,8 @@ suite('LLMService Property Tests', () => {
               range: new vscode.Range(line, 0, line, (documentLines[line] || '').length)
             }),
             languageId: 'typescript',
-            fileName: 'test.ts'
+            fileName: 'test.ts',
+            uri: vscode.Uri.file('test.ts')
           } as any;
 
           const mockEditor = {
@@ -185,7 +195,7 @@ suite('LLMService Property Tests', () => {
           } as any;
 
           // Extract code context
-          const context = llmService.extractCodeContext(mockEditor);
+          const context = await llmService.extractCodeContext(mockEditor);
 
           // Verify context is bounded (not the entire file)
           const contextLines = context.snippet.split('\n').length;
@@ -231,18 +241,18 @@ suite('LLMService Property Tests', () => {
           // Build the request
           const request = llmService.buildRequest(codeContext, personality);
 
-          // Verify max_tokens is set to limit response length
+          // Verify maxTokens is set to limit response length
           const maxTokens = configManager.getMaxTokens();
-          assert.strictEqual(request.max_tokens, maxTokens, 
-            'Request max_tokens should match configured value');
+          assert.strictEqual(request.maxTokens, maxTokens, 
+            'Request maxTokens should match configured value');
           
-          // Verify max_tokens is reasonable for brief commentary (not too large)
-          assert.ok(request.max_tokens <= 200, 
-            'max_tokens should be limited to ensure brief responses (<=200)');
+          // Verify maxTokens is reasonable for brief commentary (not too large)
+          assert.ok(request.maxTokens <= 200, 
+            'maxTokens should be limited to ensure brief responses (<=200)');
           
-          // Verify max_tokens is positive
-          assert.ok(request.max_tokens > 0, 
-            'max_tokens must be positive');
+          // Verify maxTokens is positive
+          assert.ok(request.maxTokens > 0, 
+            'maxTokens must be positive');
         }
       ),
       { numRuns: 100 }
@@ -252,53 +262,61 @@ suite('LLMService Property Tests', () => {
   // Feature: spooky-code-pets, Property 8: API key retrieval for LLM requests
   // Validates: Requirements 3.3
   test('Property 8: LLM service retrieves API key from secure storage before requests', async () => {
-    return fc.assert(
-      fc.asyncProperty(
-        fc.string({ minLength: 10, maxLength: 100 }), // API key
-        async (apiKey: string) => {
-          // Create a fresh context and services for this test
-          const testContext = createMockContext();
-          const testConfigManager = new ConfigurationManager(testContext);
-          const testLLMService = new LLMService(testConfigManager);
-          
-          // Set the API key in secure storage
-          await testConfigManager.setApiKey(apiKey);
-          
-          // Verify the key is stored and can be retrieved
-          const storedKey = await testConfigManager.getApiKey();
-          assert.strictEqual(storedKey, apiKey, 'API key should be stored in secure storage');
-          
-          // Verify that when generateCommentary is called, it attempts to retrieve the API key
-          // We test this by ensuring that without an API key, it throws an error
-          await testConfigManager.clearApiKey();
-          
-          const codeContext: CodeContext = {
-            language: 'typescript',
-            snippet: 'const x = 1;',
-            lineNumber: 1,
-            fileName: 'test.ts'
-          };
-          
-          try {
-            await testLLMService.generateCommentary(codeContext, 'test personality');
-            assert.fail('Should have thrown error for missing API key');
-          } catch (error) {
-            assert.ok(error instanceof Error, 'Should throw an Error');
-            assert.ok(error.message.includes('API key'), 'Error should mention API key');
+    // Disable the offline fallback so a missing key surfaces as an error
+    const config = vscode.workspace.getConfiguration('spookyPets');
+    await config.update('offlineFallback', false, vscode.ConfigurationTarget.Global);
+
+    try {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.string({ minLength: 10, maxLength: 100 }), // API key
+          async (apiKey: string) => {
+            // Create a fresh context and services for this test
+            const testContext = createMockContext();
+            const testConfigManager = new ConfigurationManager(testContext);
+            const testLLMService = new LLMService(testConfigManager);
+            
+            // Set the API key in secure storage
+            await testConfigManager.setApiKey(apiKey);
+            
+            // Verify the key is stored and can be retrieved
+            const storedKey = await testConfigManager.getApiKey();
+            assert.strictEqual(storedKey, apiKey, 'API key should be stored in secure storage');
+            
+            // Verify that when generateCommentary is called, it attempts to retrieve the API key
+            // We test this by ensuring that without an API key, it throws an error
+            await testConfigManager.clearApiKey();
+            
+            const codeContext: CodeContext = {
+              language: 'typescript',
+              snippet: 'const x = 1;',
+              lineNumber: 1,
+              fileName: 'test.ts'
+            };
+            
+            try {
+              await testLLMService.generateCommentary(codeContext, 'test personality');
+              assert.fail('Should have thrown error for missing API key');
+            } catch (error) {
+              assert.ok(error instanceof Error, 'Should throw an Error');
+              assert.ok(error.message.includes('API key'), 'Error should mention API key');
+            }
+            
+            // Now set the API key and verify it's retrieved (we can't test actual API call without mocking)
+            await testConfigManager.setApiKey(apiKey);
+            const retrievedKey = await testConfigManager.getApiKey();
+            assert.strictEqual(retrievedKey, apiKey, 'API key should be retrievable for LLM requests');
+            
+            // Clean up
+            await testConfigManager.clearApiKey();
+            testConfigManager.dispose();
           }
-          
-          // Now set the API key and verify it's retrieved (we can't test actual API call without mocking)
-          await testConfigManager.setApiKey(apiKey);
-          const retrievedKey = await testConfigManager.getApiKey();
-          assert.strictEqual(retrievedKey, apiKey, 'API key should be retrievable for LLM requests');
-          
-          // Clean up
-          await testConfigManager.clearApiKey();
-          testConfigManager.dispose();
-        }
-      ),
-      { numRuns: 100 }
-    );
+        ),
+        { numRuns: 100 }
+      );
+    } finally {
+      await config.update('offlineFallback', undefined, vscode.ConfigurationTarget.Global);
+    }
   });
 });
 
@@ -344,7 +362,7 @@ suite('LLMService Property Tests', () => {
           const request = testLLMService.buildRequest(codeContext, personality);
           assert.ok(request, 'Service should remain operational and able to build requests after API failure');
           assert.ok(request.model, 'Service should still function correctly after API failure');
-          assert.ok(request.messages, 'Service should still build valid requests after API failure');
+          assert.ok(request.userPrompt, 'Service should still build valid requests after API failure');
           
           // Verify we can extract code context (another operation that should still work)
           const mockEditor = {
@@ -353,14 +371,15 @@ suite('LLMService Property Tests', () => {
               lineCount: 10,
               lineAt: (line: number) => ({ text: 'test', range: {} as any }),
               languageId: codeContext.language,
-              fileName: codeContext.fileName
+              fileName: codeContext.fileName,
+              uri: vscode.Uri.file(codeContext.fileName)
             },
             selection: {
               active: { line: 5, character: 0 }
             }
           } as any;
           
-          const extractedContext = testLLMService.extractCodeContext(mockEditor);
+          const extractedContext = await testLLMService.extractCodeContext(mockEditor);
           assert.ok(extractedContext, 'Service should still extract code context after API failure');
           assert.ok(extractedContext.language, 'Extracted context should have language');
           
@@ -0,0 +1,158 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { OfflineCommentaryEngine } from '../llm/OfflineCommentaryEngine.js';
+import { CodeContext } from '../models/CodeContext.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+import { PetType } from '../models/PetType.js';
+import { PERSONALITIES } from '../personalities/personalities.js';
+
+/**
+ * Create a code context around the given lines
+ */
+function contextFor(lines: string[], language: string = 'typescript'): CodeContext {
+  return {
+    language,
+    snippet: lines.join('\n'),
+    lineNumber: 1,
+    fileName: 'test.ts'
+  };
+}
+
+suite('OfflineCommentaryEngine Unit Tests', () => {
+  const engine = new OfflineCommentaryEngine();
+
+  suite('Heuristics', () => {
+    test('should flag empty catch blocks', () => {
+      const findings = engine.analyze(contextFor(['try {', '  load();', '} catch (error) {}']));
+
+      assert.strictEqual(findings[0].expression, ExpressionType.Concerned);
+      assert.ok(findings[0].observation.includes('catch'));
+    });
+
+    test('should flag empty Python except blocks', () => {
+      const findings = engine.analyze(contextFor(['try:', '    load()', 'except ValueError:', '    pass'], 'python'));
+
+      assert.ok(findings.some(finding => finding.observation.includes('catch')));
+    });
+
+    test('should flag deep nesting', () => {
+      const findings = engine.analyze(contextFor([
+        'if (a) {',
+        '  if (b) {',
+        '    if (c) {',
+        '      if (d) {',
+        '        go();',
+        '      }',
+        '    }',
+        '  }',
+        '}'
+      ]));
+
+      assert.ok(findings.some(finding => finding.observation.includes('4 levels deep')));
+    });
+
+    test('should flag leftover console.log calls', () => {
+      const findings = engine.analyze(contextFor(['console.log(user);', 'save(user);']));
+
+      assert.ok(findings.some(finding => finding.observation.includes('console.log')));
+    });
+
+    test('should flag long lines', () => {
+      const findings = engine.analyze(contextFor(['const message = "' + 'a'.repeat(150) + '";']));
+
+      assert.ok(findings.some(finding => finding.observation.includes('characters')));
+    });
+
+    test('should notice TODO and FIXME markers', () => {
+      const findings = engine.analyze(contextFor(['// FIXME: handle errors', 'save();']));
+
+      assert.ok(findings.some(finding => finding.observation.includes('FIXME')));
+    });
+
+    test('should flag magic numbers but not named constants', () => {
+      assert.ok(engine.analyze(contextFor(['setTimeout(poll, 4500);'])).some(finding => finding.observation.includes('4500')));
+      assert.strictEqual(engine.analyze(contextFor(['const POLL_INTERVAL_MS = 4500;'])).length, 0);
+      assert.strictEqual(engine.analyze(contextFor(['log("retry 4500 times");'])).length, 0);
+    });
+
+    test('should order findings by severity', () => {
+      const findings = engine.analyze(contextFor(['// TODO: tidy', 'try { run(); } catch {}']));
+
+      assert.ok(findings.length >= 2);
+      assert.ok(findings[0].observation.includes('catch'), 'Empty catch should outrank TODO');
+    });
+  });
+
+  suite('Commentary Generation', () => {
+    test('should be happy when nothing is found', () => {
+      const response = engine.generate(contextFor(['const total = items.length;']), PetType.Pumpkin);
+
+      assert.strictEqual(response.expression, ExpressionType.Happy);
+    });
+
+    test('should lead in with one of the pet\'s example comments for the expression', () => {
+      for (const petType of Object.values(PetType)) {
+        const response = engine.generate(contextFor(['console.log(x);']), petType);
+        const examples = PERSONALITIES[petType].exampleComments.filter(example => example.expression === response.expression);
+
+        assert.ok(examples.some(example => response.commentary.startsWith(example.text)), `Commentary should be in ${petType}'s voice`);
+      }
+    });
+
+    test('should keep commentary within the speech bubble limit', () => {
+      const response = engine.generate(contextFor(['x'.repeat(5000)]), PetType.Skeleton);
+
+      assert.ok(response.commentary.length <= 200);
+    });
+
+    test('should be deterministic for the same code', () => {
+      const codeContext = contextFor(['// TODO: later']);
+
+      assert.deepStrictEqual(engine.generate(codeContext, PetType.Ghost), engine.generate(codeContext, PetType.Ghost));
+    });
+  });
+
+  suite('Task Results', () => {
+    test('should be concerned about a failing task', () => {
+      const response = engine.generateForTask(
+        { name: 'npm: test', kind: 'test', exitCode: 1, recovered: false },
+        PetType.Ghost
+      );
+
+      assert.strictEqual(response.expression, ExpressionType.Concerned);
+      assert.ok(response.commentary.includes('npm: test'));
+      assert.ok(response.commentary.includes('exit code 1'));
+    });
+
+    test('should be happy when a task passes again', () => {
+      const response = engine.generateForTask(
+        { name: 'tsc: build', kind: 'build', exitCode: 0, recovered: true },
+        PetType.Skeleton
+      );
+
+      assert.strictEqual(response.expression, ExpressionType.Happy);
+      assert.ok(response.commentary.includes('passes again'));
+    });
+  });
+
+  suite('Terminal Commands', () => {
+    test('should name a well-known cause from the output', () => {
+      const response = engine.generateForTerminal(
+        { commandLine: 'pumpkin --carve', exitCode: 127, output: 'bash: pumpkin: command not found', outputTruncated: false },
+        PetType.Pumpkin
+      );
+
+      assert.strictEqual(response.expression, ExpressionType.Concerned);
+      assert.ok(response.commentary.includes('not installed'));
+    });
+
+    test('should fall back to the exit code', () => {
+      const response = engine.generateForTerminal(
+        { commandLine: 'make haunt', exitCode: 2, output: 'make: *** [haunt] Error 2', outputTruncated: false },
+        PetType.Ghost
+      );
+
+      assert.ok(response.commentary.includes('exit code 2'));
+    });
+  });
+});
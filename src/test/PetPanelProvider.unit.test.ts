@@ -3,6 +3,8 @@ import { suite, test } from 'mocha';
 import * as vscode from 'vscode';
 import { PetPanelProvider } from '../providers/PetPanelProvider.js';
 import { PetType } from '../models/PetType.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+import { IdleState } from '../models/IdleState.js';
 
 suite('PetPanelProvider Unit Tests', () => {
   
@@ -595,6 +597,112 @@ suite('PetPanelProvider Unit Tests', () => {
       );
     });
 
+    test('should badge commentary answered by a failover endpoint', () => {
+      // Create a mock extension context
+      const mockContext = {
+        extensionUri: vscode.Uri.file('/mock/path'),
+        subscriptions: []
+      } as any;
+
+      const provider = new PetPanelProvider(mockContext);
+
+      // Track messages sent to webview
+      const sentMessages: any[] = [];
+
+      // Mock the webview
+      const mockWebview = {
+        postMessage: (msg: any) => {
+          sentMessages.push(msg);
+          return Promise.resolve(true);
+        },
+        asWebviewUri: (uri: vscode.Uri) => uri,
+        cspSource: 'mock-csp',
+        html: '',
+        options: {},
+        onDidReceiveMessage: () => ({ dispose: () => {} })
+      } as any;
+
+      const mockWebviewView = {
+        webview: mockWebview,
+        onDidDispose: () => ({ dispose: () => {} }),
+        onDidChangeVisibility: () => ({ dispose: () => {} }),
+        visible: true,
+        viewType: 'spookyPets.petView'
+      } as any;
+
+      // Resolve the webview view
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+
+      // Clear initial messages
+      sentMessages.length = 0;
+
+      provider.showSpeechBubbleWithExpression('from the primary', ExpressionType.Happy);
+      provider.showSpeechBubbleWithExpression('from the backup', ExpressionType.Neutral, 'Backup');
+
+      const bubbleMessages = sentMessages.filter(msg => msg.type === 'showSpeechBubbleWithExpression');
+      assert.strictEqual(bubbleMessages.length, 2);
+      assert.strictEqual(bubbleMessages[0].backend, undefined, 'Primary answers should not be badged');
+      assert.strictEqual(bubbleMessages[1].backend, 'Backup');
+    });
+
+    test('should append streamed text to speech bubble', () => {
+      // Create a mock extension context
+      const mockContext = {
+        extensionUri: vscode.Uri.file('/mock/path'),
+        subscriptions: []
+      } as any;
+
+      const provider = new PetPanelProvider(mockContext);
+
+      // Track messages sent to webview
+      const sentMessages: any[] = [];
+
+      // Mock the webview
+      const mockWebview = {
+        postMessage: (msg: any) => {
+          sentMessages.push(msg);
+          return Promise.resolve(true);
+        },
+        asWebviewUri: (uri: vscode.Uri) => uri,
+        cspSource: 'mock-csp',
+        html: '',
+        options: {},
+        onDidReceiveMessage: () => ({ dispose: () => {} })
+      } as any;
+
+      const mockWebviewView = {
+        webview: mockWebview,
+        onDidDispose: () => ({ dispose: () => {} }),
+        onDidChangeVisibility: () => ({ dispose: () => {} }),
+        visible: true,
+        viewType: 'spookyPets.petView'
+      } as any;
+
+      // Resolve the webview view
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+
+      // Clear initial messages
+      sentMessages.length = 0;
+
+      // Stream two chunks, the second one carrying the expression
+      provider.appendSpeechBubble('Boo, ');
+      provider.appendSpeechBubble('nice loop!', ExpressionType.Happy);
+
+      // Verify appendSpeechBubble messages were sent in order
+      const appendMessages = sentMessages.filter(
+        msg => msg.type === 'appendSpeechBubble'
+      );
+      assert.strictEqual(
+        appendMessages.length,
+        2,
+        'Two appendSpeechBubble messages should be sent'
+      );
+      assert.strictEqual(appendMessages[0].text, 'Boo, ');
+      assert.strictEqual(appendMessages[0].expression, undefined);
+      assert.strictEqual(appendMessages[1].text, 'nice loop!');
+      assert.strictEqual(appendMessages[1].expression, ExpressionType.Happy);
+    });
+
     test('should hide speech bubble', () => {
       // Create a mock extension context
       const mockContext = {
@@ -648,6 +756,105 @@ suite('PetPanelProvider Unit Tests', () => {
       );
     });
 
+    test('should put the pet to sleep and restore sleep when the view is resolved', () => {
+      // Create a mock extension context
+      const mockContext = {
+        extensionUri: vscode.Uri.file('/mock/path'),
+        subscriptions: []
+      } as any;
+
+      const provider = new PetPanelProvider(mockContext);
+
+      // Sleep before the view exists, e.g. when the endpoint fails with the panel collapsed
+      provider.setSleeping(true);
+      assert.strictEqual(provider.isSleeping(), true);
+
+      // Track messages sent to webview
+      const sentMessages: any[] = [];
+
+      // Mock the webview
+      const mockWebview = {
+        postMessage: (msg: any) => {
+          sentMessages.push(msg);
+          return Promise.resolve(true);
+        },
+        asWebviewUri: (uri: vscode.Uri) => uri,
+        cspSource: 'mock-csp',
+        html: '',
+        options: {},
+        onDidReceiveMessage: () => ({ dispose: () => {} })
+      } as any;
+
+      const mockWebviewView = {
+        webview: mockWebview,
+        onDidDispose: () => ({ dispose: () => {} }),
+        onDidChangeVisibility: () => ({ dispose: () => {} }),
+        visible: true,
+        viewType: 'spookyPets.petView'
+      } as any;
+
+      // Resolve the webview view
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+
+      // Verify the sleeping state followed the initial pet
+      const sleepMessages = sentMessages.filter(msg => msg.type === 'setSleeping');
+      assert.strictEqual(sleepMessages.length, 1, 'Sleeping state should be restored');
+      assert.strictEqual(sleepMessages[0].sleeping, true);
+
+      // Wake the pet up
+      sentMessages.length = 0;
+      provider.setSleeping(false);
+
+      assert.deepStrictEqual(sentMessages, [{ type: 'setSleeping', sleeping: false }]);
+      assert.strictEqual(provider.isSleeping(), false);
+    });
+
+    test('should send idle states and restore them when the view is resolved', () => {
+      const mockContext = {
+        extensionUri: vscode.Uri.file('/mock/path'),
+        subscriptions: []
+      } as any;
+
+      const provider = new PetPanelProvider(mockContext);
+      assert.strictEqual(provider.getIdleState(), IdleState.Active);
+
+      // Fall asleep while the panel is collapsed
+      provider.setIdleState(IdleState.Asleep);
+
+      const sentMessages: any[] = [];
+      const mockWebview = {
+        postMessage: (msg: any) => {
+          sentMessages.push(msg);
+          return Promise.resolve(true);
+        },
+        asWebviewUri: (uri: vscode.Uri) => uri,
+        cspSource: 'mock-csp',
+        html: '',
+        options: {},
+        onDidReceiveMessage: () => ({ dispose: () => {} })
+      } as any;
+
+      const mockWebviewView = {
+        webview: mockWebview,
+        onDidDispose: () => ({ dispose: () => {} }),
+        onDidChangeVisibility: () => ({ dispose: () => {} }),
+        visible: true,
+        viewType: 'spookyPets.petView'
+      } as any;
+
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+
+      const idleMessages = sentMessages.filter(msg => msg.type === 'setIdleState');
+      assert.deepStrictEqual(idleMessages, [{ type: 'setIdleState', state: IdleState.Asleep }], 'Idle state should be restored');
+
+      // Wake up when the user is back
+      sentMessages.length = 0;
+      provider.setIdleState(IdleState.Active);
+
+      assert.deepStrictEqual(sentMessages, [{ type: 'setIdleState', state: IdleState.Active }]);
+      assert.strictEqual(provider.getIdleState(), IdleState.Active);
+    });
+
     test('should show and hide processing indicator', () => {
       // Create a mock extension context
       const mockContext = {
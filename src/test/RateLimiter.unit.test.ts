@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { suite, test, setup } from 'mocha';
+import { RateLimiter } from '../services/RateLimiter.js';
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+
+/**
+ * Checks whether a promise is still pending after pending timers have run
+ */
+async function isPending(promise: Promise<unknown>): Promise<boolean> {
+  const pending = Symbol('pending');
+  const result = await Promise.race([
+    promise.then(() => undefined, () => undefined),
+    new Promise(resolve => setTimeout(() => resolve(pending), 20))
+  ]);
+  return result === pending;
+}
+
+suite('RateLimiter Unit Tests', () => {
+  let requestsPerMinute: number;
+  let tokensPerMinute: number;
+  let limiter: RateLimiter;
+
+  setup(() => {
+    requestsPerMinute = 0;
+    tokensPerMinute = 0;
+
+    const configManager = {
+      getRequestsPerMinute: () => requestsPerMinute,
+      getTokensPerMinute: () => tokensPerMinute
+    } as unknown as ConfigurationManager;
+    limiter = new RateLimiter(configManager);
+  });
+
+  suite('Retry-After Parsing', () => {
+    test('should parse delay seconds', () => {
+      assert.strictEqual(RateLimiter.parseRetryAfter('3'), 3000);
+    });
+
+    test('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT');
+
+      assert.strictEqual(RateLimiter.parseRetryAfter('Mon, 19 Oct 2026 12:00:05 GMT', now), 5000);
+    });
+
+    test('should ignore missing or invalid values', () => {
+      assert.strictEqual(RateLimiter.parseRetryAfter(null), undefined);
+      assert.strictEqual(RateLimiter.parseRetryAfter('soon'), undefined);
+    });
+  });
+
+  suite('Acquisition', () => {
+    test('should not wait when limits are disabled', async () => {
+      for (let i = 0; i < 100; i++) {
+        await limiter.acquire(100_000);
+      }
+    });
+
+    test('should hold requests beyond the per-minute request limit', async () => {
+      requestsPerMinute = 2;
+      await limiter.acquire(10);
+      await limiter.acquire(10);
+
+      const controller = new AbortController();
+      const third = limiter.acquire(10, controller.signal);
+
+      assert.ok(await isPending(third), 'Third request should wait for the bucket to refill');
+      controller.abort();
+      await assert.rejects(third, vscode.CancellationError);
+    });
+
+    test('should hold requests beyond the per-minute token limit', async () => {
+      tokensPerMinute = 1000;
+      await limiter.acquire(800);
+
+      const controller = new AbortController();
+      const second = limiter.acquire(800, controller.signal);
+
+      assert.ok(await isPending(second), 'Second request should wait for tokens');
+      controller.abort();
+      await assert.rejects(second, vscode.CancellationError);
+    });
+
+    test('should return unused tokens when the actual usage is lower than estimated', async () => {
+      tokensPerMinute = 1000;
+      await limiter.acquire(800);
+      limiter.reconcile(800, 200);
+
+      await limiter.acquire(800);
+    });
+
+    test('should not let a cancelled waiter block later requests', async () => {
+      requestsPerMinute = 1;
+      await limiter.acquire(10);
+
+      const controller = new AbortController();
+      const cancelled = limiter.acquire(10, controller.signal);
+      controller.abort();
+      await assert.rejects(cancelled, vscode.CancellationError);
+
+      requestsPerMinute = 0;
+      await limiter.acquire(10);
+    });
+
+    test('should hold every request while paused by the server', async () => {
+      limiter.pauseFor(50);
+      const startedAt = Date.now();
+
+      await limiter.acquire(10);
+
+      assert.ok(Date.now() - startedAt >= 40, 'Request should wait out the pause');
+    });
+
+    test('should let a timeout cut a long pause short', async () => {
+      limiter.pauseFor(60 * 60 * 1000);
+
+      await assert.rejects(limiter.acquire(10, AbortSignal.timeout(20)), vscode.CancellationError);
+    });
+
+    test('should pause for at most five minutes', async () => {
+      let now = 0;
+      const configManager = {
+        getRequestsPerMinute: () => 0,
+        getTokensPerMinute: () => 0
+      } as unknown as ConfigurationManager;
+      const clockedLimiter = new RateLimiter(configManager, () => now);
+      clockedLimiter.pauseFor(24 * 60 * 60 * 1000);
+
+      now = 5 * 60 * 1000;
+
+      assert.strictEqual(await isPending(clockedLimiter.acquire(10)), false);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { TerminalTrigger } from '../triggers/index.js';
+
+suite('TerminalTrigger Unit Tests', () => {
+  test('should strip colours, titles and other escape sequences', () => {
+    const raw = '\x1b]0;npm test\x07\x1b[31mError:\x1b[0m \x1b[1mexpected 2\x1b[22m\r\n';
+
+    assert.deepStrictEqual(TerminalTrigger.getOutputTail(raw), { text: 'Error: expected 2', truncated: false });
+  });
+
+  test('should keep only the last drawing of a redrawn line', () => {
+    const raw = 'Downloading 10%\rDownloading 50%\rDownloading 100%\nnpm ERR! code E404\n\n';
+
+    assert.strictEqual(TerminalTrigger.getOutputTail(raw).text, 'Downloading 100%\nnpm ERR! code E404');
+  });
+
+  test('should keep the last lines of long output', () => {
+    const lines = Array.from({ length: 100 }, (_, index) => `line ${index}`);
+
+    const tail = TerminalTrigger.getOutputTail(lines.join('\n'));
+
+    assert.ok(tail.truncated);
+    assert.deepStrictEqual(tail.text.split('\n'), lines.slice(-TerminalTrigger.MAX_OUTPUT_LINES));
+  });
+
+  test('should cap the tail at the character limit', () => {
+    const tail = TerminalTrigger.getOutputTail('x'.repeat(10000) + '\nfatal: not a git repository');
+
+    assert.ok(tail.truncated);
+    assert.strictEqual(tail.text.length, TerminalTrigger.MAX_OUTPUT_CHARS);
+    assert.ok(tail.text.endsWith('fatal: not a git repository'));
+  });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { TextDiff } from '../services/TextDiff.js';
+
+suite('TextDiff Unit Tests', () => {
+  const original = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+
+  test('should return no hunks for unchanged text', () => {
+    assert.deepStrictEqual(TextDiff.diffLines(original.join('\n'), original.join('\n')), []);
+  });
+
+  test('should describe a changed line with its context', () => {
+    const changed = [...original];
+    changed[9] = 'line ten';
+
+    const hunks = TextDiff.diffLines(original.join('\n'), changed.join('\n'));
+
+    assert.strictEqual(hunks.length, 1);
+    assert.deepStrictEqual(hunks[0].text.split('\n'), [
+      '@@ -7,7 +7,7 @@',
+      ' line 7',
+      ' line 8',
+      ' line 9',
+      '-line 10',
+      '+line ten',
+      ' line 11',
+      ' line 12',
+      ' line 13'
+    ]);
+    assert.deepStrictEqual([hunks[0].newStart, hunks[0].newLines], [7, 7]);
+  });
+
+  test('should keep distant changes in separate hunks', () => {
+    const changed = [...original];
+    changed.splice(25, 0, 'added near the end');
+    changed.splice(2, 1);
+
+    const hunks = TextDiff.diffLines(original.join('\n'), changed.join('\n'));
+
+    assert.strictEqual(hunks.length, 2);
+    assert.ok(hunks[0].text.includes('-line 3'));
+    assert.ok(hunks[1].text.includes('+added near the end'));
+    assert.strictEqual(hunks[1].newStart, 22);
+  });
+
+  test('should merge nearby changes into one hunk', () => {
+    const changed = [...original];
+    changed[9] = 'line ten';
+    changed[13] = 'line fourteen';
+
+    assert.strictEqual(TextDiff.diffLines(original.join('\n'), changed.join('\n')).length, 1);
+  });
+
+  test('should number a pure insertion after the line it follows', () => {
+    const hunks = TextDiff.diffLines('a\nb', 'a\nnew\nb', 0);
+
+    assert.deepStrictEqual(hunks[0].text.split('\n'), ['@@ -1,0 +2,1 @@', '+new']);
+  });
+});
@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { suite, test, setup } from 'mocha';
+import { TriggerRegistry, CommentaryTrigger, TriggerEvent, TriggerListener } from '../triggers/index.js';
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+import { ExclusionFilter } from '../services/ExclusionFilter.js';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+
+/**
+ * Trigger that fires whenever the test tells it to
+ */
+class FakeTrigger implements CommentaryTrigger {
+  readonly defaultSettings: TriggerSettings = { enabled: true, cooldownSeconds: 10 };
+  private fire?: TriggerListener;
+
+  constructor(readonly id: string) {}
+
+  start(fire: TriggerListener): void {
+    this.fire = fire;
+  }
+
+  stop(): void {
+    this.fire = undefined;
+  }
+
+  emit(languageId: string = 'typescript'): void {
+    const editor = { document: { fileName: `test.${languageId}`, languageId } } as unknown as vscode.TextEditor;
+    this.fire?.({ triggerId: this.id, priority: TriggerPriority.Normal, editor });
+  }
+
+  isStarted(): boolean {
+    return this.fire !== undefined;
+  }
+}
+
+suite('TriggerRegistry Unit Tests', () => {
+  let now: number;
+  let settings: Record<string, Partial<TriggerSettings>>;
+  let languages: string[];
+  let registry: TriggerRegistry;
+  let received: TriggerEvent[];
+
+  setup(() => {
+    now = 0;
+    settings = {};
+    languages = [];
+    received = [];
+
+    const configManager = {
+      getTriggerSettings: () => settings,
+      getExcludePatterns: () => [],
+      getLanguageFilter: () => languages
+    } as unknown as ConfigurationManager;
+    registry = new TriggerRegistry(configManager, new ExclusionFilter(configManager), () => now);
+  });
+
+  test('should pass events from started triggers to the listener', () => {
+    const trigger = new FakeTrigger('typing');
+    registry.register(trigger);
+    registry.start(event => received.push(event));
+
+    trigger.emit();
+
+    assert.deepStrictEqual(received.map(event => event.triggerId), ['typing']);
+  });
+
+  test('should start triggers registered while running and stop them all', () => {
+    registry.start(event => received.push(event));
+    const trigger = new FakeTrigger('save');
+    registry.register(trigger);
+
+    assert.ok(trigger.isStarted());
+    registry.stop();
+    assert.ok(!trigger.isStarted());
+  });
+
+  test('should reject a second trigger with the same id', () => {
+    registry.register(new FakeTrigger('typing'));
+
+    assert.throws(() => registry.register(new FakeTrigger('typing')), /already registered/);
+  });
+
+  test('should drop events from disabled triggers', () => {
+    const trigger = new FakeTrigger('typing');
+    registry.register(trigger);
+    registry.start(event => received.push(event));
+    settings = { typing: { enabled: false } };
+
+    trigger.emit();
+
+    assert.strictEqual(received.length, 0);
+  });
+
+  test('should drop events during the cooldown', () => {
+    const trigger = new FakeTrigger('typing');
+    registry.register(trigger);
+    registry.start(event => received.push(event));
+
+    trigger.emit();
+    now = 9_999;
+    trigger.emit();
+    now = 10_000;
+    trigger.emit();
+
+    assert.strictEqual(received.length, 2);
+  });
+
+  test('should drop events about excluded files without starting the cooldown', () => {
+    const trigger = new FakeTrigger('typing');
+    registry.register(trigger);
+    registry.start(event => received.push(event));
+    languages = ['!markdown'];
+
+    trigger.emit('markdown');
+    trigger.emit('typescript');
+
+    assert.strictEqual(received.length, 1);
+    assert.strictEqual(received[0].editor?.document.languageId, 'typescript');
+  });
+
+  test('should apply cooldowns per trigger', () => {
+    const typing = new FakeTrigger('typing');
+    const save = new FakeTrigger('save');
+    registry.register(typing);
+    registry.register(save);
+    registry.start(event => received.push(event));
+
+    typing.emit();
+    save.emit();
+
+    assert.deepStrictEqual(received.map(event => event.triggerId), ['typing', 'save']);
+  });
+
+  test('should merge user settings over the trigger defaults', () => {
+    registry.register(new FakeTrigger('typing'));
+    settings = { typing: { cooldownSeconds: 60 } };
+
+    assert.deepStrictEqual(registry.getSettings('typing'), { enabled: true, cooldownSeconds: 60 });
+    assert.strictEqual(registry.getSettings('unknown'), undefined);
+  });
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { suite, test, setup } from 'mocha';
+import { UsageTracker } from '../services/UsageTracker.js';
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+import { ModelPrice } from '../models/ModelPrice.js';
+import { PetType } from '../models/PetType.js';
+
+/**
+ * Mock Memento for testing
+ */
+class MockMemento implements vscode.Memento {
+  private storage = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return Array.from(this.storage.keys());
+  }
+
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.storage.has(key) ? this.storage.get(key) as T : defaultValue;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    if (value === undefined) {
+      this.storage.delete(key);
+    } else {
+      this.storage.set(key, value);
+    }
+  }
+}
+
+suite('UsageTracker Unit Tests', () => {
+  let prices: Record<string, ModelPrice>;
+  let monthlyBudget: number;
+  let currentTime: number;
+  let tracker: UsageTracker;
+
+  setup(() => {
+    prices = { 'gpt-4o-mini': { input: 0.15, output: 0.6 } };
+    monthlyBudget = 0;
+    currentTime = new Date(2026, 9, 15, 12).getTime();
+
+    const configManager = {
+      getModelPrices: () => prices,
+      getMonthlyBudget: () => monthlyBudget
+    } as unknown as ConfigurationManager;
+    tracker = new UsageTracker(new MockMemento(), configManager, () => currentTime);
+  });
+
+  suite('Cost Calculation', () => {
+    test('should price prompt and completion tokens per million', () => {
+      const cost = tracker.calculateCost('gpt-4o-mini', { promptTokens: 1_000_000, completionTokens: 500_000 });
+
+      assert.strictEqual(cost, 0.45);
+    });
+
+    test('should treat models without a price as free', () => {
+      assert.strictEqual(tracker.calculateCost('llama3.2', { promptTokens: 1000, completionTokens: 1000 }), 0);
+    });
+  });
+
+  suite('Recording', () => {
+    test('should accumulate totals per day, model and pet', async () => {
+      await tracker.record('gpt-4o-mini', PetType.Pumpkin, { promptTokens: 100, completionTokens: 20 });
+      await tracker.record('gpt-4o-mini', PetType.Ghost, { promptTokens: 50, completionTokens: 10 });
+      await tracker.record('llama3.2', PetType.Pumpkin, { promptTokens: 80, completionTokens: 15 });
+
+      const day = tracker.getDailyUsage()['2026-10-15'];
+
+      assert.strictEqual(day.models['gpt-4o-mini'].requests, 2);
+      assert.strictEqual(day.models['gpt-4o-mini'].promptTokens, 150);
+      assert.strictEqual(day.models['llama3.2'].cost, 0);
+      assert.strictEqual(day.pets[PetType.Pumpkin].requests, 2);
+      assert.strictEqual(day.pets[PetType.Pumpkin].completionTokens, 35);
+      assert.strictEqual(day.pets[PetType.Ghost].requests, 1);
+    });
+
+    test('should only count the current month in the month-to-date summary', async () => {
+      currentTime = new Date(2026, 8, 30, 12).getTime();
+      await tracker.record('gpt-4o-mini', PetType.Pumpkin, { promptTokens: 100, completionTokens: 20 });
+      currentTime = new Date(2026, 9, 1, 12).getTime();
+      await tracker.record('gpt-4o-mini', PetType.Skeleton, { promptTokens: 40, completionTokens: 10 });
+
+      const summary = tracker.getMonthToDate();
+
+      assert.strictEqual(summary.total.requests, 1);
+      assert.strictEqual(summary.total.promptTokens, 40);
+      assert.deepStrictEqual(Object.keys(summary.pets), [PetType.Skeleton]);
+    });
+
+    test('should forget all usage on reset', async () => {
+      await tracker.record('gpt-4o-mini', PetType.Pumpkin, { promptTokens: 100, completionTokens: 20 });
+      await tracker.reset();
+
+      assert.deepStrictEqual(tracker.getDailyUsage(), {});
+    });
+  });
+
+  suite('Monthly Budget', () => {
+    test('should never be exceeded when no budget is set', async () => {
+      await tracker.record('gpt-4o-mini', PetType.Pumpkin, { promptTokens: 10_000_000, completionTokens: 0 });
+
+      assert.strictEqual(tracker.isBudgetExceeded(), false);
+    });
+
+    test('should be exceeded once spending reaches the budget', async () => {
+      monthlyBudget = 1;
+      await tracker.record('gpt-4o-mini', PetType.Pumpkin, { promptTokens: 5_000_000, completionTokens: 0 });
+      assert.strictEqual(tracker.isBudgetExceeded(), false);
+
+      await tracker.record('gpt-4o-mini', PetType.Pumpkin, { promptTokens: 2_000_000, completionTokens: 0 });
+      assert.strictEqual(tracker.isBudgetExceeded(), true);
+    });
+
+    test('should reset with the new month', async () => {
+      monthlyBudget = 1;
+      await tracker.record('gpt-4o-mini', PetType.Pumpkin, { promptTokens: 10_000_000, completionTokens: 0 });
+
+      currentTime = new Date(2026, 10, 1, 12).getTime();
+
+      assert.strictEqual(tracker.isBudgetExceeded(), false);
+    });
+  });
+
+  suite('Report', () => {
+    test('should list usage by model and pet', async () => {
+      monthlyBudget = 5;
+      await tracker.record('gpt-4o-mini', PetType.Ghost, { promptTokens: 1_000_000, completionTokens: 0 });
+
+      const report = tracker.formatReport();
+
+      assert.ok(report.includes('**$0.1500** of the $5.0000 monthly budget'));
+      assert.ok(report.includes('| gpt-4o-mini | 1 | 1000000 | 0 | $0.1500 |'));
+      assert.ok(report.includes(`| ${PetType.Ghost} | 1 |`));
+      assert.ok(report.includes('| 2026-10-15 | 1 |'));
+    });
+  });
+});
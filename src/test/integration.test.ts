@@ -60,6 +60,7 @@ suite('Integration Test Suite', () => {
       assert.ok(commands.includes('spookyPets.setApiKey'), 'setApiKey command should be registered');
       assert.ok(commands.includes('spookyPets.selectPet'), 'selectPet command should be registered');
       assert.ok(commands.includes('spookyPets.triggerCommentary'), 'triggerCommentary command should be registered');
+      assert.ok(commands.includes('spookyPets.askAboutSelection'), 'askAboutSelection command should be registered');
       assert.ok(commands.includes('spookyPets.clearApiKey'), 'clearApiKey command should be registered');
 
       // Step 4: Verify the webview view is registered
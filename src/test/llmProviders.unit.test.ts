@@ -0,0 +1,243 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { AnthropicProvider, CompletionRequest, OllamaProvider, OpenAIProvider, createProvider, readStreamEvents } from '../llm/index.js';
+import { ProviderType } from '../models/ProviderType.js';
+
+const completionRequest: CompletionRequest = {
+  model: 'test-model',
+  systemPrompt: 'You are a pumpkin',
+  userPrompt: 'Comment on this code',
+  maxTokens: 75,
+  temperature: 0.6
+};
+
+suite('LLM Provider Unit Tests', () => {
+  suite('Provider Factory', () => {
+    test('should create a provider for every provider type', () => {
+      for (const type of Object.values(ProviderType)) {
+        const provider = createProvider(type);
+        assert.strictEqual(provider.type, type);
+      }
+    });
+  });
+
+  suite('OpenAIProvider', () => {
+    const provider = new OpenAIProvider();
+
+    test('should send the personality as a system message', () => {
+      const payload = provider.buildPayload(completionRequest);
+
+      assert.strictEqual(payload.model, 'test-model');
+      assert.strictEqual(payload.messages.length, 2);
+      assert.deepStrictEqual(payload.messages[0], { role: 'system', content: 'You are a pumpkin' });
+      assert.deepStrictEqual(payload.messages[1], { role: 'user', content: 'Comment on this code' });
+      assert.strictEqual(payload.max_tokens, 75);
+      assert.strictEqual(payload.temperature, 0.6);
+    });
+
+    test('should authenticate with a Bearer header', () => {
+      const httpRequest = provider.buildHttpRequest(completionRequest, 'https://example.com/v1/chat/completions', 'sk-test');
+
+      assert.strictEqual(httpRequest.url, 'https://example.com/v1/chat/completions');
+      assert.strictEqual(httpRequest.headers['Authorization'], 'Bearer sk-test');
+    });
+
+    test('should extract the first choice from the response', () => {
+      const text = provider.parseResponse({
+        choices: [{ message: { content: '{"commentary":"Boo","expression":"happy"}' } }]
+      });
+
+      assert.strictEqual(text, '{"commentary":"Boo","expression":"happy"}');
+    });
+
+    test('should reject responses without choices', () => {
+      assert.throws(() => provider.parseResponse({ choices: [] }), /no choices returned/);
+    });
+
+    test('should request a stream only when asked to', () => {
+      assert.strictEqual(provider.buildPayload(completionRequest).stream, undefined);
+      assert.strictEqual(provider.buildPayload({ ...completionRequest, stream: true }).stream, true);
+    });
+
+    test('should extract text deltas from stream chunks', () => {
+      assert.strictEqual(provider.parseStreamEvent('{"choices":[{"delta":{"content":"Boo"}}]}'), 'Boo');
+      assert.strictEqual(provider.parseStreamEvent('{"choices":[{"delta":{}}]}'), undefined);
+      assert.strictEqual(provider.parseStreamEvent('[DONE]'), undefined);
+    });
+
+    test('should ask for usage in streamed responses', () => {
+      const payload = provider.buildPayload({ ...completionRequest, stream: true });
+
+      assert.deepStrictEqual(payload.stream_options, { include_usage: true });
+    });
+
+    test('should extract token usage from the response and the final stream chunk', () => {
+      const usage = { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 };
+
+      assert.deepStrictEqual(
+        provider.parseUsage({ choices: [{ message: { content: 'Boo' } }], usage }),
+        { promptTokens: 120, completionTokens: 30 }
+      );
+      assert.strictEqual(provider.parseUsage({ choices: [{ message: { content: 'Boo' } }] }), undefined);
+      assert.deepStrictEqual(
+        provider.parseStreamUsage(JSON.stringify({ choices: [], usage })),
+        { promptTokens: 120, completionTokens: 30 }
+      );
+      assert.strictEqual(provider.parseStreamUsage('{"choices":[{"delta":{"content":"Boo"}}],"usage":null}'), undefined);
+      assert.strictEqual(provider.parseStreamUsage('[DONE]'), undefined);
+    });
+  });
+
+  suite('AnthropicProvider', () => {
+    const provider = new AnthropicProvider();
+
+    test('should send the personality as a top-level system prompt', () => {
+      const payload = provider.buildPayload(completionRequest);
+
+      assert.strictEqual(payload.system, 'You are a pumpkin');
+      assert.deepStrictEqual(payload.messages, [{ role: 'user', content: 'Comment on this code' }]);
+      assert.ok(payload.messages.every(message => (message.role as string) !== 'system'));
+      assert.strictEqual(payload.max_tokens, 75);
+    });
+
+    test('should authenticate with x-api-key and anthropic-version headers', () => {
+      const httpRequest = provider.buildHttpRequest(completionRequest, provider.defaultEndpoint, 'sk-ant-test');
+
+      assert.strictEqual(httpRequest.headers['x-api-key'], 'sk-ant-test');
+      assert.strictEqual(httpRequest.headers['anthropic-version'], AnthropicProvider.API_VERSION);
+      assert.strictEqual(httpRequest.headers['Authorization'], undefined);
+    });
+
+    test('should join text content blocks from the response', () => {
+      const text = provider.parseResponse({
+        content: [
+          { type: 'text', text: '{"commentary":"Boo",' },
+          { type: 'text', text: '"expression":"neutral"}' }
+        ]
+      });
+
+      assert.strictEqual(text, '{"commentary":"Boo","expression":"neutral"}');
+    });
+
+    test('should reject responses without text content', () => {
+      assert.throws(() => provider.parseResponse({ content: [] }), /no content blocks/);
+      assert.throws(() => provider.parseResponse({ content: [{ type: 'tool_use' }] }), /no message content/);
+    });
+
+    test('should extract text deltas from content block events', () => {
+      assert.strictEqual(
+        provider.parseStreamEvent('{"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Boo"}}'),
+        'Boo'
+      );
+      assert.strictEqual(provider.parseStreamEvent('{"type":"message_start","message":{}}'), undefined);
+      assert.throws(() => provider.parseStreamEvent('{"type":"error","error":{"type":"overloaded_error"}}'), /stream failed/);
+    });
+
+    test('should extract token usage from the response', () => {
+      const usage = provider.parseUsage({
+        content: [{ type: 'text', text: 'Boo' }],
+        usage: { input_tokens: 120, output_tokens: 30 }
+      });
+
+      assert.deepStrictEqual(usage, { promptTokens: 120, completionTokens: 30 });
+    });
+
+    test('should extract token usage from message start and delta events', () => {
+      assert.deepStrictEqual(
+        provider.parseStreamUsage('{"type":"message_start","message":{"usage":{"input_tokens":120,"output_tokens":1}}}'),
+        { promptTokens: 120, completionTokens: 1 }
+      );
+      assert.deepStrictEqual(
+        provider.parseStreamUsage('{"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":30}}'),
+        { completionTokens: 30 }
+      );
+      assert.strictEqual(
+        provider.parseStreamUsage('{"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Boo"}}'),
+        undefined
+      );
+    });
+  });
+
+  suite('OllamaProvider', () => {
+    const provider = new OllamaProvider();
+
+    test('should not require an API key', () => {
+      const httpRequest = provider.buildHttpRequest(completionRequest, provider.defaultEndpoint, undefined);
+
+      assert.strictEqual(provider.requiresApiKey, false);
+      assert.strictEqual(httpRequest.headers['Authorization'], undefined);
+    });
+
+    test('should request a single non-streamed JSON response', () => {
+      const payload = provider.buildPayload(completionRequest);
+
+      assert.strictEqual(payload.stream, false);
+      assert.strictEqual(payload.format, 'json');
+      assert.strictEqual(payload.options.num_predict, 75);
+      assert.strictEqual(payload.messages[0].role, 'system');
+    });
+
+    test('should extract the message content from the response', () => {
+      const text = provider.parseResponse({ message: { role: 'assistant', content: 'Boo' } });
+
+      assert.strictEqual(text, 'Boo');
+    });
+
+    test('should derive the model list URL from the chat endpoint', () => {
+      assert.strictEqual(
+        provider.getModelListUrl('http://localhost:11434/api/chat'),
+        'http://localhost:11434/api/tags'
+      );
+    });
+
+    test('should parse model names from the tags response', () => {
+      const models = provider.parseModelList({ models: [{ name: 'llama3.2' }, { name: 'qwen2.5-coder' }] });
+
+      assert.deepStrictEqual(models, ['llama3.2', 'qwen2.5-coder']);
+    });
+
+    test('should extract text deltas from streamed lines', () => {
+      assert.strictEqual(provider.parseStreamEvent('{"message":{"role":"assistant","content":"Boo"},"done":false}'), 'Boo');
+      assert.strictEqual(provider.parseStreamEvent('{"done":true}'), undefined);
+    });
+
+    test('should extract token counts from the final response', () => {
+      assert.deepStrictEqual(
+        provider.parseStreamUsage('{"done":true,"prompt_eval_count":120,"eval_count":30}'),
+        { promptTokens: 120, completionTokens: 30 }
+      );
+      assert.strictEqual(provider.parseStreamUsage('{"message":{"role":"assistant","content":"Boo"},"done":false}'), undefined);
+    });
+  });
+
+  suite('Stream Reader', () => {
+    async function* toStream(chunks: string[]): AsyncGenerator<Uint8Array> {
+      for (const chunk of chunks) {
+        yield new TextEncoder().encode(chunk);
+      }
+    }
+
+    async function collect(chunks: string[], format: 'sse' | 'ndjson'): Promise<string[]> {
+      const events: string[] = [];
+      for await (const event of readStreamEvents(toStream(chunks), format)) {
+        events.push(event);
+      }
+      return events;
+    }
+
+    test('should yield SSE data payloads split across chunks', async () => {
+      const events = await collect(
+        ['event: content_block_delta\ndata: {"a":', '1}\r\n\n: keep-alive\n', 'data: [DONE]'],
+        'sse'
+      );
+
+      assert.deepStrictEqual(events, ['{"a":1}', '[DONE]']);
+    });
+
+    test('should yield newline-delimited JSON lines', async () => {
+      const events = await collect(['{"a":1}\n{"b"', ':2}\n\n'], 'ndjson');
+
+      assert.deepStrictEqual(events, ['{"a":1}', '{"b":2}']);
+    });
+  });
+});
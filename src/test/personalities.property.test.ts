@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import * as fc from 'fast-check';
 import { suite, test } from 'mocha';
+import { ExpressionType } from '../models/ExpressionType.js';
 import { PetType } from '../models/PetType.js';
 import { PERSONALITIES } from '../personalities/personalities.js';
 
@@ -41,6 +42,14 @@ suite('Personality Property Tests', () => {
           Array.isArray(personality.exampleComments) && personality.exampleComments.length > 0,
           `Example comments should be a non-empty array for ${petType}`
         );
+
+        // Offline commentary leads in with an example comment for its expression
+        for (const expression of Object.values(ExpressionType)) {
+          assert.ok(
+            personality.exampleComments.some(example => example.expression === expression),
+            `${petType} should have an example comment for the ${expression} expression`
+          );
+        }
         
         // Each pet type should have a unique system prompt
         // (This ensures personalities are distinct)
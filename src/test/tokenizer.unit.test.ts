@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { estimateTokens, fitSnippet } from '../llm/index.js';
+
+suite('Tokenizer Unit Tests', () => {
+  const lines = Array.from({ length: 21 }, (_, index) => `const value${index} = compute(${index});`);
+
+  suite('estimateTokens', () => {
+    test('should count nothing for empty text', () => {
+      assert.strictEqual(estimateTokens(''), 0);
+    });
+
+    test('should count long words as several tokens and symbols as one each', () => {
+      assert.strictEqual(estimateTokens('a'), 1);
+      assert.strictEqual(estimateTokens('abcdefgh'), 2);
+      assert.strictEqual(estimateTokens('foo(bar);'), 5);
+    });
+
+    test('should charge dense minified code more than its character count suggests', () => {
+      const minified = 'a(b,c);'.repeat(100);
+
+      assert.ok(estimateTokens(minified) > minified.length / 4);
+    });
+  });
+
+  suite('fitSnippet', () => {
+    test('should keep a snippet that fits unchanged', () => {
+      const fitted = fitSnippet({ lines, focusIndex: 10, maxTokens: 10_000 });
+
+      assert.strictEqual(fitted.text, lines.join('\n'));
+      assert.strictEqual(fitted.tokens, estimateTokens(fitted.text));
+    });
+
+    test('should trim whole lines evenly around the cursor line', () => {
+      const lineCost = estimateTokens(lines[0]) + 1;
+      const fitted = fitSnippet({ lines, focusIndex: 10, maxTokens: lineCost * 5 });
+
+      assert.deepStrictEqual(fitted.text.split('\n'), lines.slice(8, 13));
+    });
+
+    test('should spend the budget on the other side when one side runs out', () => {
+      const lineCost = estimateTokens(lines[0]) + 1;
+      const fitted = fitSnippet({ lines, focusIndex: 1, maxTokens: lineCost * 5 });
+
+      assert.deepStrictEqual(fitted.text.split('\n'), lines.slice(0, 5));
+    });
+
+    test('should add surrounding lines when there is room', () => {
+      const fitted = fitSnippet({
+        lines: lines.slice(8, 13),
+        focusIndex: 2,
+        before: lines.slice(0, 8),
+        after: lines.slice(13),
+        maxTokens: 10_000
+      });
+
+      assert.strictEqual(fitted.text, lines.join('\n'));
+    });
+
+    test('should add surrounding lines nearest first', () => {
+      const lineCost = estimateTokens(lines[0]) + 1;
+      const fitted = fitSnippet({
+        lines: [lines[10]],
+        focusIndex: 0,
+        before: lines.slice(0, 10),
+        after: lines.slice(11),
+        maxTokens: lineCost * 3
+      });
+
+      assert.deepStrictEqual(fitted.text.split('\n'), lines.slice(9, 12));
+    });
+
+    test('should cut a minified cursor line down to the budget', () => {
+      const minified = 'var a=function(b){return b+1};'.repeat(2000);
+      const fitted = fitSnippet({ lines: ['// header', minified, '// footer'], focusIndex: 1, maxTokens: 200 });
+
+      assert.ok(fitted.tokens <= 200, `expected at most 200 tokens, got ${fitted.tokens}`);
+      assert.ok(fitted.text.endsWith('…'));
+      assert.ok(!fitted.text.includes('// header'));
+    });
+  });
+});
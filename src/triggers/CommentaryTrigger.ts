@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { CodeContext } from '../models/CodeContext.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+import { StructuredCommentaryResponse } from '../models/StructuredCommentaryResponse.js';
+import { CommentaryOptions } from '../services/LLMService.js';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+
+/**
+ * Interface for a trigger's request for commentary
+ */
+export interface TriggerEvent {
+  triggerId: string;
+  priority: TriggerPriority;
+  editor?: vscode.TextEditor;  // The editor the commentary is about, if it is about code
+  occasion?: string;  // What happened, added to the prompt
+  expression?: ExpressionType;  // Shown instead of the expression the LLM picks
+  extractContext?: () => Promise<CodeContext>;  // Chooses the code (defaults to the context mode)
+  generate?: EventCommentaryGenerator;  // Comments on something other than code, such as a task result
+}
+
+/**
+ * Generates commentary about an event rather than code, in the given personality
+ */
+export type EventCommentaryGenerator = (
+  personality: string,
+  options: CommentaryOptions
+) => Promise<StructuredCommentaryResponse>;
+
+/**
+ * Callback a trigger calls when the pet should comment
+ */
+export type TriggerListener = (event: TriggerEvent) => void;
+
+/**
+ * Interface for a pluggable source of automatic commentary. The registry applies
+ * the trigger's enable flag and cooldown, so a trigger only decides when to fire
+ */
+export interface CommentaryTrigger {
+  readonly id: string;  // Key in the spookyPets.triggers setting
+  readonly defaultSettings: TriggerSettings;
+
+  /**
+   * Starts listening for the trigger's events
+   * @param fire Called for every event that should produce commentary
+   */
+  start(fire: TriggerListener): void;
+
+  /**
+   * Stops listening and forgets any accumulated state
+   */
+  stop(): void;
+}
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+import { CommentaryTrigger, TriggerListener } from './CommentaryTrigger.js';
+
+/**
+ * Fires when several new errors appear in the active editor at once,
+ * such as after a bad merge or a rename that broke the callers
+ */
+export class DiagnosticsTrigger implements CommentaryTrigger {
+  static readonly ID = 'diagnostics';
+
+  // New errors in a single update that count as a spike
+  private static readonly SPIKE_THRESHOLD = 3;
+
+  readonly id = DiagnosticsTrigger.ID;
+  readonly defaultSettings: TriggerSettings = { enabled: false, cooldownSeconds: 300 };
+
+  // Error counts per document, so only increases are noticed
+  private errorCounts = new Map<string, number>();
+  private disposable?: vscode.Disposable;
+
+  start(fire: TriggerListener): void {
+    this.errorCounts.clear();
+    this.disposable = vscode.languages.onDidChangeDiagnostics((event) => this.handleDiagnosticsChange(event, fire));
+  }
+
+  stop(): void {
+    this.errorCounts.clear();
+    this.disposable?.dispose();
+    this.disposable = undefined;
+  }
+
+  /**
+   * Compares the new error counts with the previous ones and fires on a spike in the active editor
+   */
+  private handleDiagnosticsChange(event: vscode.DiagnosticChangeEvent, fire: TriggerListener): void {
+    const editor = vscode.window.activeTextEditor;
+
+    for (const uri of event.uris) {
+      const key = uri.toString();
+      const errors = vscode.languages.getDiagnostics(uri)
+        .filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error).length;
+      const previous = this.errorCounts.get(key);
+      this.errorCounts.set(key, errors);
+
+      // The first report for a document is what it already had, not a spike
+      if (previous === undefined || !editor || editor.document.uri.toString() !== key) {
+        continue;
+      }
+
+      const newErrors = errors - previous;
+      if (newErrors >= DiagnosticsTrigger.SPIKE_THRESHOLD) {
+        fire({
+          triggerId: this.id,
+          priority: TriggerPriority.High,
+          editor,
+          occasion: `${newErrors} new errors just appeared in this file. Help the developer get back on track.`
+        });
+      }
+    }
+  }
+}
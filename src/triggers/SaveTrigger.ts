@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { LLMService } from '../services/LLMService.js';
+import { TextDiff } from '../services/TextDiff.js';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+import { CommentaryTrigger, TriggerListener } from './CommentaryTrigger.js';
+
+/**
+ * Fires when the user saves the active file, sending only what changed since the last save.
+ * Saves are natural "done with this bit" moments, unlike a character count reached mid-line
+ */
+export class SaveTrigger implements CommentaryTrigger {
+  static readonly ID = 'save';
+
+  // Documents larger than this are not snapshotted
+  private static readonly MAX_SNAPSHOT_LENGTH = 1_000_000;
+
+  readonly id = SaveTrigger.ID;
+  readonly defaultSettings: TriggerSettings = { enabled: true, cooldownSeconds: 30 };
+
+  private llmService: LLMService;
+
+  // Last saved content of each open document
+  private snapshots = new Map<string, string>();
+  // Why each document is being saved, between the will-save and did-save events
+  private saveReasons = new Map<string, vscode.TextDocumentSaveReason>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(llmService: LLMService) {
+    this.llmService = llmService;
+  }
+
+  start(fire: TriggerListener): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.takeSnapshot(document);
+    }
+
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((document) => this.takeSnapshot(document)),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        this.snapshots.delete(document.uri.toString());
+        this.saveReasons.delete(document.uri.toString());
+      }),
+      vscode.workspace.onWillSaveTextDocument((event) => {
+        this.saveReasons.set(event.document.uri.toString(), event.reason);
+      }),
+      vscode.workspace.onDidSaveTextDocument((document) => this.handleSave(document, fire))
+    );
+  }
+
+  stop(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.snapshots.clear();
+    this.saveReasons.clear();
+  }
+
+  /**
+   * Remembers a document's content if it matches what is on disk
+   */
+  private takeSnapshot(document: vscode.TextDocument): void {
+    const text = document.getText();
+    if (!document.isDirty && text.length <= SaveTrigger.MAX_SNAPSHOT_LENGTH) {
+      this.snapshots.set(document.uri.toString(), text);
+    }
+  }
+
+  /**
+   * Compares the saved content with the previous snapshot and fires if the active file changed
+   */
+  private handleSave(document: vscode.TextDocument, fire: TriggerListener): void {
+    const key = document.uri.toString();
+    const reason = this.saveReasons.get(key);
+    this.saveReasons.delete(key);
+
+    // Auto save happens mid-thought; keep the snapshot until the user saves on purpose
+    if (reason !== undefined && reason !== vscode.TextDocumentSaveReason.Manual) {
+      return;
+    }
+
+    const previous = this.snapshots.get(key);
+    this.snapshots.delete(key);
+    this.takeSnapshot(document);
+
+    const editor = vscode.window.activeTextEditor;
+    if (previous === undefined || !editor || editor.document !== document) {
+      return;
+    }
+
+    const hunks = TextDiff.diffLines(previous, document.getText());
+    if (hunks.length === 0) {
+      return;
+    }
+
+    fire({
+      triggerId: this.id,
+      priority: TriggerPriority.Normal,
+      editor,
+      occasion: 'The developer just saved the file, wrapping up these changes.',
+      extractContext: () => this.llmService.extractChangesContext(editor, hunks, 'changes since the last save')
+    });
+  }
+}
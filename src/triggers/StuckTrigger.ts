@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+import { LLMService } from '../services/LLMService.js';
+import { EnclosingSymbol } from '../models/EnclosingSymbol.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+import { CommentaryTrigger, TriggerListener } from './CommentaryTrigger.js';
+
+/**
+ * Interface for the activity seen since the cursor settled in a function
+ */
+interface Focus {
+  key: string;  // Document and enclosing symbol
+  since: number;
+  edits: number;
+  undos: number;
+}
+
+/**
+ * Fires when the user seems stuck: the cursor has stayed in the same function for a while
+ * with lots of edits and undos but no save, so the pet offers a hint
+ */
+export class StuckTrigger implements CommentaryTrigger {
+  static readonly ID = 'stuck';
+
+  private static readonly CHECK_INTERVAL_MS = 30 * 1000;
+  // Activity that separates being stuck from reading or thinking
+  private static readonly MIN_EDITS = 20;
+  private static readonly MIN_UNDOS = 3;
+
+  readonly id = StuckTrigger.ID;
+  readonly defaultSettings: TriggerSettings = { enabled: true, cooldownSeconds: 600 };
+
+  private configManager: ConfigurationManager;
+  private llmService: LLMService;
+  private now: () => number;
+
+  private focus?: Focus;
+  private checkTimer?: NodeJS.Timeout;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(configManager: ConfigurationManager, llmService: LLMService, now: () => number = Date.now) {
+    this.configManager = configManager;
+    this.llmService = llmService;
+    this.now = now;
+  }
+
+  start(fire: TriggerListener): void {
+    this.focus = undefined;
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) => this.handleTextChange(event)),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        // A save is progress, so start watching afresh
+        if (this.focus && document === vscode.window.activeTextEditor?.document) {
+          this.focus = { ...this.focus, since: this.now(), edits: 0, undos: 0 };
+        }
+      })
+    );
+    this.checkTimer = setInterval(() => {
+      this.check(fire).catch((error) => {
+        console.error('[StuckTrigger] Failed to check for a stuck user:', error);
+      });
+    }, StuckTrigger.CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = undefined;
+    }
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.focus = undefined;
+  }
+
+  /**
+   * Counts edits and undos in the active editor towards the current focus
+   */
+  private handleTextChange(event: vscode.TextDocumentChangeEvent): void {
+    if (!this.focus || event.contentChanges.length === 0 || event.document !== vscode.window.activeTextEditor?.document) {
+      return;
+    }
+
+    if (event.reason === vscode.TextDocumentChangeReason.Undo) {
+      this.focus.undos++;
+    } else {
+      this.focus.edits++;
+    }
+  }
+
+  /**
+   * Follows the cursor from function to function and fires once it has been stuck in one long enough
+   */
+  private async check(fire: TriggerListener): Promise<void> {
+    const stuckAfterMs = this.configManager.getStuckAfterMinutes() * 60 * 1000;
+    const editor = vscode.window.activeTextEditor;
+    if (stuckAfterMs <= 0 || !editor) {
+      this.focus = undefined;
+      return;
+    }
+
+    const symbol = await this.llmService.getEnclosingSymbol(editor.document, editor.selection.active);
+    const key = `${editor.document.uri.toString()}#${this.describePath(symbol)}`;
+    if (!this.focus || this.focus.key !== key) {
+      this.focus = { key, since: this.now(), edits: 0, undos: 0 };
+      return;
+    }
+
+    const { since, edits, undos } = this.focus;
+    if (this.now() - since < stuckAfterMs || edits < StuckTrigger.MIN_EDITS || undos < StuckTrigger.MIN_UNDOS) {
+      return;
+    }
+
+    // Watch afresh so the same struggle is not reported every check
+    this.focus = { key, since: this.now(), edits: 0, undos: 0 };
+    const minutes = Math.round((this.now() - since) / 60000);
+    const place = symbol ? `${symbol.kind} \`${symbol.name}\`` : 'this code';
+    fire({
+      triggerId: this.id,
+      priority: TriggerPriority.Normal,
+      editor,
+      expression: ExpressionType.Concerned,
+      occasion: `The developer has spent ${minutes} minutes in ${place} with many edits and undos but no save, ` +
+        'so they may be stuck. Offer one gentle, concrete hint.'
+    });
+  }
+
+  /**
+   * Identifies a symbol by its name and the names of its containers
+   */
+  private describePath(symbol: EnclosingSymbol | undefined): string {
+    return symbol ? `${this.describePath(symbol.container)}/${symbol.name}` : '';
+  }
+}
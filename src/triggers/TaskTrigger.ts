@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { LLMService } from '../services/LLMService.js';
+import { ExpressionType } from '../models/ExpressionType.js';
+import { TaskResult } from '../models/TaskResult.js';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+import { CommentaryTrigger, TriggerListener } from './CommentaryTrigger.js';
+
+/**
+ * Fires when a build or test task fails, and again when a failing one passes.
+ * Test runs started from the Testing view are not covered; VS Code does not
+ * share their results with other extensions
+ */
+export class TaskTrigger implements CommentaryTrigger {
+  static readonly ID = 'tasks';
+
+  readonly id = TaskTrigger.ID;
+  readonly defaultSettings: TriggerSettings = { enabled: true, cooldownSeconds: 0 };
+
+  private llmService: LLMService;
+
+  // Tasks whose last run failed, so a pass can be celebrated
+  private failingTasks = new Set<string>();
+  private disposable?: vscode.Disposable;
+
+  constructor(llmService: LLMService) {
+    this.llmService = llmService;
+  }
+
+  start(fire: TriggerListener): void {
+    this.disposable = vscode.tasks.onDidEndTaskProcess((event) => this.handleTaskEnd(event, fire));
+  }
+
+  stop(): void {
+    this.disposable?.dispose();
+    this.disposable = undefined;
+    this.failingTasks.clear();
+  }
+
+  /**
+   * Tells whether a task builds or tests the project, from its group or else its name
+   * @param task The task that ended
+   * @returns The kind of task, or undefined for any other task
+   */
+  static getTaskKind(task: vscode.Task): TaskResult['kind'] | undefined {
+    if (task.group?.id === vscode.TaskGroup.Build.id) {
+      return 'build';
+    }
+    if (task.group?.id === vscode.TaskGroup.Test.id) {
+      return 'test';
+    }
+    if (/\btest/i.test(task.name)) {
+      return 'test';
+    }
+    if (/\b(build|compile)/i.test(task.name)) {
+      return 'build';
+    }
+    return undefined;
+  }
+
+  /**
+   * Fires on a failure, or on a pass that follows a failure
+   */
+  private handleTaskEnd(event: vscode.TaskProcessEndEvent, fire: TriggerListener): void {
+    const task = event.execution.task;
+    const kind = TaskTrigger.getTaskKind(task);
+    if (event.exitCode === undefined || !kind) {
+      return;
+    }
+
+    const key = `${task.source}:${task.name}`;
+    const failed = event.exitCode !== 0;
+    const recovered = !failed && this.failingTasks.has(key);
+    if (failed) {
+      this.failingTasks.add(key);
+    } else {
+      this.failingTasks.delete(key);
+    }
+    if (!failed && !recovered) {
+      return;
+    }
+
+    const taskResult: TaskResult = { name: task.name, kind, exitCode: event.exitCode, recovered };
+    fire({
+      triggerId: this.id,
+      priority: failed ? TriggerPriority.High : TriggerPriority.Normal,
+      expression: failed ? ExpressionType.Concerned : ExpressionType.Happy,
+      generate: (personality, options) => this.llmService.generateTaskCommentary(taskResult, personality, options)
+    });
+  }
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import { LLMService } from '../services/LLMService.js';
+import { TerminalContext } from '../models/TerminalContext.js';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+import { CommentaryTrigger, TriggerListener } from './CommentaryTrigger.js';
+
+/**
+ * Interface for the output of a running command, captured as it streams
+ */
+interface CapturedOutput {
+  text: string;
+  truncated: boolean;  // True once earlier output was dropped
+  done: Promise<void>;  // Settles when the stream ends
+}
+
+/**
+ * Interface for the cleaned-up end of a command's output
+ */
+export interface OutputTail {
+  text: string;
+  truncated: boolean;  // True when earlier lines were dropped
+}
+
+/**
+ * Fires when a command fails in the integrated terminal, asking for a one-line diagnosis
+ * from the command line and the end of its output. Needs shell integration; terminals
+ * without it report no commands
+ */
+export class TerminalTrigger implements CommentaryTrigger {
+  static readonly ID = 'terminal';
+  static readonly MAX_OUTPUT_LINES = 30;
+  static readonly MAX_OUTPUT_CHARS = 2000;
+  private static readonly MAX_BUFFERED_CHARS = 16 * 1024;
+  private static readonly READ_GRACE_MS = 500;
+
+  // Exit codes of commands the developer interrupted (Ctrl+C, SIGTERM)
+  private static readonly INTERRUPTED_EXIT_CODES = new Set([130, 143]);
+
+  readonly id = TerminalTrigger.ID;
+  readonly defaultSettings: TriggerSettings = { enabled: true, cooldownSeconds: 60 };
+
+  private llmService: LLMService;
+
+  private outputs = new Map<vscode.TerminalShellExecution, CapturedOutput>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(llmService: LLMService) {
+    this.llmService = llmService;
+  }
+
+  start(fire: TriggerListener): void {
+    this.disposables.push(
+      // Output is only readable from the moment read() is first called, so capture every command
+      vscode.window.onDidStartTerminalShellExecution((event) => this.capture(event.execution)),
+      vscode.window.onDidEndTerminalShellExecution((event) => {
+        this.handleExecutionEnd(event, fire).catch((error) => {
+          console.error('[TerminalTrigger] Failed to handle the end of a command:', error);
+        });
+      })
+    );
+  }
+
+  stop(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.outputs.clear();
+  }
+
+  /**
+   * Cleans up raw terminal output and keeps its last lines, where errors usually are
+   * @param raw The data written to the terminal, including escape sequences
+   * @returns The last lines, without escape sequences or trailing blank lines
+   */
+  static getOutputTail(raw: string): OutputTail {
+    const lines = raw
+      .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-?]*[ -/]*[@-~]|\x1b[@-Z\\-_]/g, '')
+      .replace(/\r\n/g, '\n')
+      .split('\n')
+      // A carriage return redraws the line, as progress bars do; only the last drawing is visible
+      .map(line => line.substring(line.lastIndexOf('\r') + 1).replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '').trimEnd());
+
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    let truncated = lines.length > TerminalTrigger.MAX_OUTPUT_LINES;
+    let text = lines.slice(-TerminalTrigger.MAX_OUTPUT_LINES).join('\n');
+    if (text.length > TerminalTrigger.MAX_OUTPUT_CHARS) {
+      text = text.substring(text.length - TerminalTrigger.MAX_OUTPUT_CHARS);
+      truncated = true;
+    }
+    return { text, truncated };
+  }
+
+  /**
+   * Buffers the end of a command's output while it runs
+   */
+  private capture(execution: vscode.TerminalShellExecution): void {
+    const captured: CapturedOutput = { text: '', truncated: false, done: Promise.resolve() };
+    captured.done = (async () => {
+      for await (const data of execution.read()) {
+        captured.text += data;
+        if (captured.text.length > TerminalTrigger.MAX_BUFFERED_CHARS) {
+          captured.text = captured.text.substring(captured.text.length - TerminalTrigger.MAX_BUFFERED_CHARS);
+          captured.truncated = true;
+        }
+      }
+    })().catch((error) => {
+      console.warn('[TerminalTrigger] Failed to read command output:', error);
+    });
+    this.outputs.set(execution, captured);
+  }
+
+  /**
+   * Fires for a command that failed on its own rather than being interrupted
+   */
+  private async handleExecutionEnd(event: vscode.TerminalShellExecutionEndEvent, fire: TriggerListener): Promise<void> {
+    const captured = this.outputs.get(event.execution);
+    this.outputs.delete(event.execution);
+
+    const exitCode = event.exitCode;
+    const commandLine = event.execution.commandLine.value.trim();
+    if (exitCode === undefined || exitCode === 0 || TerminalTrigger.INTERRUPTED_EXIT_CODES.has(exitCode) || !commandLine) {
+      return;
+    }
+
+    // The stream may still be delivering the last of the output
+    if (captured) {
+      await Promise.race([
+        captured.done,
+        new Promise(resolve => setTimeout(resolve, TerminalTrigger.READ_GRACE_MS))
+      ]);
+    }
+
+    const tail = TerminalTrigger.getOutputTail(captured?.text ?? '');
+    const terminalContext: TerminalContext = {
+      commandLine,
+      exitCode,
+      output: tail.text,
+      outputTruncated: tail.truncated || (captured?.truncated ?? false)
+    };
+
+    fire({
+      triggerId: this.id,
+      priority: TriggerPriority.High,
+      generate: (personality, options) => this.llmService.generateTerminalCommentary(terminalContext, personality, options)
+    });
+  }
+}
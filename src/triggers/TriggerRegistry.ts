@@ -0,0 +1,118 @@
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+import { ExclusionFilter } from '../services/ExclusionFilter.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+import { CommentaryTrigger, TriggerEvent, TriggerListener } from './CommentaryTrigger.js';
+
+/**
+ * Holds the commentary triggers and passes their events on to a single listener,
+ * dropping events from triggers that are disabled or still cooling down and events about excluded files
+ */
+export class TriggerRegistry {
+  private configManager: ConfigurationManager;
+  private exclusionFilter: ExclusionFilter;
+  private now: () => number;
+
+  private triggers = new Map<string, CommentaryTrigger>();
+  private lastFiredAt = new Map<string, number>();
+  private listener?: TriggerListener;
+
+  constructor(configManager: ConfigurationManager, exclusionFilter: ExclusionFilter, now: () => number = Date.now) {
+    this.configManager = configManager;
+    this.exclusionFilter = exclusionFilter;
+    this.now = now;
+  }
+
+  /**
+   * Adds a trigger, starting it straight away if the registry is running
+   * @param trigger The trigger to add
+   * @throws Error if a trigger with the same id is already registered
+   */
+  register(trigger: CommentaryTrigger): void {
+    if (this.triggers.has(trigger.id)) {
+      throw new Error(`Trigger "${trigger.id}" is already registered`);
+    }
+
+    this.triggers.set(trigger.id, trigger);
+    if (this.listener) {
+      trigger.start((event) => this.handleEvent(event));
+    }
+  }
+
+  /**
+   * Gets a registered trigger
+   * @param id The trigger id
+   * @returns The trigger, or undefined if none is registered under the id
+   */
+  get<T extends CommentaryTrigger>(id: string): T | undefined {
+    return this.triggers.get(id) as T | undefined;
+  }
+
+  /**
+   * Starts every trigger
+   * @param listener Called for every event that passes the enable flag and cooldown
+   */
+  start(listener: TriggerListener): void {
+    if (this.listener) {
+      return;
+    }
+
+    this.listener = listener;
+    this.lastFiredAt.clear();
+    for (const trigger of this.triggers.values()) {
+      trigger.start((event) => this.handleEvent(event));
+    }
+  }
+
+  /**
+   * Stops every trigger
+   */
+  stop(): void {
+    if (!this.listener) {
+      return;
+    }
+
+    this.listener = undefined;
+    for (const trigger of this.triggers.values()) {
+      trigger.stop();
+    }
+  }
+
+  /**
+   * Gets a trigger's settings, with the user's settings over the trigger's defaults
+   * @param id The trigger id
+   * @returns The settings, or undefined if no trigger is registered under the id
+   */
+  getSettings(id: string): TriggerSettings | undefined {
+    const trigger = this.triggers.get(id);
+    if (!trigger) {
+      return undefined;
+    }
+
+    return { ...trigger.defaultSettings, ...this.configManager.getTriggerSettings()[id] };
+  }
+
+  /**
+   * Passes an event on unless its trigger is disabled or fired too recently, or it is about an excluded file
+   */
+  private handleEvent(event: TriggerEvent): void {
+    const settings = this.getSettings(event.triggerId);
+    if (!this.listener || !settings?.enabled) {
+      return;
+    }
+
+    // An excluded file must not use up the cooldown that a later event needs
+    if (event.editor && this.exclusionFilter.isExcluded(event.editor.document)) {
+      console.log(`[TriggerRegistry] Skipping event from "${event.triggerId}" about an excluded file`);
+      return;
+    }
+
+    const lastFiredAt = this.lastFiredAt.get(event.triggerId);
+    if (lastFiredAt !== undefined && this.now() - lastFiredAt < settings.cooldownSeconds * 1000) {
+      console.log(`[TriggerRegistry] Trigger "${event.triggerId}" cooling down, skipping event`);
+      return;
+    }
+
+    this.lastFiredAt.set(event.triggerId, this.now());
+    this.listener(event);
+  }
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../services/ConfigurationManager.js';
+import { ExclusionFilter } from '../services/ExclusionFilter.js';
+import { TriggerPriority } from '../models/TriggerPriority.js';
+import { TriggerSettings } from '../models/TriggerSettings.js';
+import { CommentaryTrigger, TriggerListener } from './CommentaryTrigger.js';
+
+/**
+ * Fires once the characters typed in the active editor reach the commentary frequency
+ */
+export class TypingTrigger implements CommentaryTrigger {
+  static readonly ID = 'typing';
+
+  readonly id = TypingTrigger.ID;
+  readonly defaultSettings: TriggerSettings = { enabled: true, cooldownSeconds: 0 };
+
+  private configManager: ConfigurationManager;
+  private exclusionFilter: ExclusionFilter;
+  private characterCount: number = 0;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(configManager: ConfigurationManager, exclusionFilter: ExclusionFilter) {
+    this.configManager = configManager;
+    this.exclusionFilter = exclusionFilter;
+  }
+
+  /**
+   * Counts the characters an edit added, ignoring deletions
+   * @param event The text document change
+   * @returns The number of characters added
+   */
+  static countAddedCharacters(event: vscode.TextDocumentChangeEvent): number {
+    let charactersAdded = 0;
+    for (const change of event.contentChanges) {
+      charactersAdded += change.text.length;
+    }
+    return charactersAdded;
+  }
+
+  start(fire: TriggerListener): void {
+    this.characterCount = 0;
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) => this.handleTextChange(event, fire)),
+      // Typing in one file does not count towards commentary on the next
+      vscode.window.onDidChangeActiveTextEditor(() => this.reset())
+    );
+  }
+
+  stop(): void {
+    this.characterCount = 0;
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+  }
+
+  /**
+   * Starts counting from zero again
+   */
+  reset(): void {
+    this.characterCount = 0;
+  }
+
+  /**
+   * Gets the characters counted since the trigger last fired
+   */
+  getCharacterCount(): number {
+    return this.characterCount;
+  }
+
+  /**
+   * Adds the typed characters to the count and fires once the threshold is reached
+   */
+  private handleTextChange(event: vscode.TextDocumentChangeEvent, fire: TriggerListener): void {
+    // Only track changes in the active editor
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || event.document !== editor.document) {
+      return;
+    }
+
+    // Typing in excluded files never counts towards commentary
+    if (this.exclusionFilter.isExcluded(event.document)) {
+      return;
+    }
+
+    this.characterCount += TypingTrigger.countAddedCharacters(event);
+
+    // If frequency is 0, automatic commentary is disabled
+    const threshold = this.configManager.getCommentaryFrequency();
+    if (threshold === 0 || this.characterCount < threshold) {
+      return;
+    }
+
+    // Reset count immediately to prevent multiple triggers
+    this.reset();
+    fire({ triggerId: this.id, priority: TriggerPriority.Normal, editor });
+  }
+}
@@ -0,0 +1,8 @@
+export { CommentaryTrigger, EventCommentaryGenerator, TriggerEvent, TriggerListener } from './CommentaryTrigger.js';
+export { TriggerRegistry } from './TriggerRegistry.js';
+export { TypingTrigger } from './TypingTrigger.js';
+export { DiagnosticsTrigger } from './DiagnosticsTrigger.js';
+export { SaveTrigger } from './SaveTrigger.js';
+export { StuckTrigger } from './StuckTrigger.js';
+export { TaskTrigger } from './TaskTrigger.js';
+export { TerminalTrigger, OutputTail } from './TerminalTrigger.js';
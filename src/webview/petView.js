@@ -9,7 +9,9 @@
             this.ctx = this.canvas.getContext('2d');
             this.speechBubble = document.getElementById('speech-bubble');
             this.speechBubbleContent = document.querySelector('.speech-bubble-content');
+            this.backendBadge = document.getElementById('backend-badge');
             this.processingIndicator = document.getElementById('processing-indicator');
+            this.sleepIndicator = document.getElementById('sleep-indicator');
             
             this.spriteImage = null;
             this.currentPetConfig = null;
@@ -24,6 +26,12 @@
             // Expression animation state
             this.isShowingExpression = false;
             this.currentExpression = null;
+
+            // Sleeping pets stay put while the LLM endpoint is unavailable
+            this.isSleeping = false;
+
+            // Whether the user is active, drifting away ('drowsy') or gone ('asleep')
+            this.idleState = 'active';
             
             // Position tracking for movement
             this.positionX = 50; // Percentage from left (0-100), starts at center
@@ -77,7 +85,10 @@
                     this.showSpeechBubble(message.message);
                     break;
                 case 'showSpeechBubbleWithExpression':
-                    this.showSpeechBubbleWithExpression(message.message, message.expression);
+                    this.showSpeechBubbleWithExpression(message.message, message.expression, message.backend);
+                    break;
+                case 'appendSpeechBubble':
+                    this.appendSpeechBubble(message.text, message.expression);
                     break;
                 case 'hideSpeechBubble':
                     this.hideSpeechBubble();
@@ -91,6 +102,12 @@
                 case 'playInteraction':
                     this.playInteractionAnimation();
                     break;
+                case 'setSleeping':
+                    this.setSleeping(message.sleeping);
+                    break;
+                case 'setIdleState':
+                    this.setIdleState(message.state);
+                    break;
             }
         }
 
@@ -189,8 +206,8 @@
         animate(currentTime = performance.now()) {
             this.animationFrameId = requestAnimationFrame((time) => this.animate(time));
 
-            // Don't change behavior or move if showing expression
-            if (!this.isShowingExpression) {
+            // Don't change behavior or move if showing expression, sleeping or waiting for the user
+            if (!this.isShowingExpression && !this.isSleeping && this.idleState === 'active') {
                 // Update position if walking
                 this.updatePosition();
 
@@ -202,13 +219,27 @@
 
             const deltaTime = currentTime - this.lastFrameTime;
             
-            if (deltaTime >= this.currentPetConfig.frameDuration) {
+            if (deltaTime >= this.getFrameDuration()) {
                 this.lastFrameTime = currentTime;
                 this.advanceFrame();
                 this.render();
             }
         }
 
+        getFrameDuration() {
+            // Slow down as the pet gets sleepy, unless it is talking
+            if (this.isShowingExpression || this.isInteracting) {
+                return this.currentPetConfig.frameDuration;
+            }
+            if (this.idleState === 'asleep') {
+                return this.currentPetConfig.frameDuration * 6;
+            }
+            if (this.idleState === 'drowsy') {
+                return this.currentPetConfig.frameDuration * 2;
+            }
+            return this.currentPetConfig.frameDuration;
+        }
+
         updatePosition() {
             if (this.currentAnimation === 'walkLeft') {
                 if (this.positionX > this.targetPositionX) {
@@ -250,6 +281,9 @@
             
             // Use translateX for horizontal movement only (vertical position is fixed in CSS)
             this.canvas.style.transform = `translateX(${clampedPosition}px)`;
+
+            // Keep the sleep indicator above the pet's head
+            this.sleepIndicator.style.left = `${clampedPosition + canvasWidth * 0.75}px`;
         }
 
         advanceFrame() {
@@ -259,7 +293,7 @@
             // If interaction animation is complete, return to idle
             if (this.isInteracting && this.currentFrameIndex === 0) {
                 this.isInteracting = false;
-                this.currentAnimation = 'idle';
+                this.currentAnimation = this.getRestingAnimation();
             }
         }
 
@@ -277,6 +311,8 @@
                     return this.currentPetConfig.neutralExpressionFrames || this.currentPetConfig.idleFrames;
                 case 'concernedExpression':
                     return this.currentPetConfig.concernedExpressionFrames || this.currentPetConfig.idleFrames;
+                case 'sleep':
+                    return this.currentPetConfig.sleepFrames || this.currentPetConfig.idleFrames.slice(0, 2);
                 case 'idle':
                 default:
                     return this.currentPetConfig.idleFrames;
@@ -365,10 +401,11 @@
 
         showSpeechBubble(text) {
             this.speechBubbleContent.textContent = text;
+            this.setBackendBadge(undefined);
             this.speechBubble.classList.remove('hidden');
         }
 
-        showSpeechBubbleWithExpression(text, expression) {
+        showSpeechBubbleWithExpression(text, expression, backend) {
             // Pause normal behavior
             this.isShowingExpression = true;
             this.currentExpression = expression;
@@ -379,17 +416,40 @@
             
             // Show speech bubble
             this.speechBubbleContent.textContent = text;
+            this.setBackendBadge(backend);
+            this.speechBubble.classList.remove('hidden');
+        }
+
+        setBackendBadge(backend) {
+            // Only answers from a failover endpoint are badged
+            this.backendBadge.textContent = backend ? `via ${backend}` : '';
+            this.backendBadge.classList.toggle('hidden', !backend);
+        }
+
+        appendSpeechBubble(text, expression) {
+            // Start the expression animation once, without restarting it on every chunk
+            if (expression && this.currentExpression !== expression) {
+                this.isShowingExpression = true;
+                this.currentExpression = expression;
+                this.currentAnimation = `${expression}Expression`;
+                this.currentFrameIndex = 0;
+            }
+
+            if (text) {
+                this.speechBubbleContent.textContent += text;
+            }
             this.speechBubble.classList.remove('hidden');
         }
 
         hideSpeechBubble() {
             this.speechBubble.classList.add('hidden');
             this.speechBubbleContent.textContent = '';
+            this.setBackendBadge(undefined);
             
             // Resume normal behavior
             this.isShowingExpression = false;
             this.currentExpression = null;
-            this.currentAnimation = 'idle';
+            this.currentAnimation = this.getRestingAnimation();
             this.currentFrameIndex = 0;
         }
 
@@ -401,6 +461,37 @@
             this.processingIndicator.classList.add('hidden');
         }
 
+        setSleeping(sleeping) {
+            this.isSleeping = sleeping;
+            this.canvas.classList.toggle('sleeping', sleeping);
+            this.updateSleepIndicator();
+
+            if (sleeping && !this.isInteracting) {
+                this.currentAnimation = this.getRestingAnimation();
+                this.currentFrameIndex = 0;
+            }
+        }
+
+        setIdleState(state) {
+            this.idleState = state;
+            this.canvas.classList.toggle('drowsy', state === 'drowsy');
+            this.canvas.classList.toggle('dozing', state === 'asleep');
+            this.updateSleepIndicator();
+
+            if (!this.isShowingExpression && !this.isInteracting) {
+                this.currentAnimation = this.getRestingAnimation();
+                this.currentFrameIndex = 0;
+            }
+        }
+
+        getRestingAnimation() {
+            return this.idleState === 'asleep' ? 'sleep' : 'idle';
+        }
+
+        updateSleepIndicator() {
+            this.sleepIndicator.classList.toggle('hidden', !this.isSleeping && this.idleState !== 'asleep');
+        }
+
         destroy() {
             if (this.animationFrameId) {
                 cancelAnimationFrame(this.animationFrameId);